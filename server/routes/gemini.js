@@ -0,0 +1,194 @@
+/**
+ * Proxy for the Gemini API
+ * Mirrors the API's REST paths, so the browser SDK can use it as its base URL, and adds the
+ * server's API key to every request so the key never reaches the browser
+ */
+
+const express = require('express');
+const axios = require('axios');
+const geminiQuota = require('../utils/geminiQuota');
+
+const router = express.Router();
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com';
+const API_VERSIONS = ['v1', 'v1beta'];
+
+// Model methods the app uses; anything else the key could do (files, tuning, caching) is refused
+const BILLABLE_ACTIONS = ['generateContent', 'streamGenerateContent', 'embedContent', 'batchEmbedContents'];
+const FREE_ACTIONS = ['countTokens'];
+
+// Matches the SDK's own request timeout; streams are only cut off when chunks stop arriving
+const UPSTREAM_TIMEOUT = 120000;
+
+/**
+ * Send an error in the API's own format, so the SDK reports it like any other API error
+ * The reason tells the app's error handling that the proxy, not the API, refused the request
+ */
+function sendError(res, status, statusText, message, reason, details = []) {
+  return res.status(status).json({
+    error: {
+      code: status,
+      message,
+      status: statusText,
+      details: [
+        { '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason, domain: 'gemini-proxy' },
+        ...details
+      ]
+    }
+  });
+}
+
+/**
+ * Find the last token count in the tail of a response
+ * Streamed chunks each carry the usage so far, so the last count is the total
+ */
+function readTotalTokens(text) {
+  const matches = text.match(/"totalTokenCount"\s*:\s*(\d+)/g);
+  if (!matches) return 0;
+
+  return parseInt(matches[matches.length - 1].replace(/\D/g, ''), 10);
+}
+
+/**
+ * Forward a request to the API and stream the response back as it arrives
+ */
+async function forward(req, res, { method, path, body, userId }) {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    return sendError(res, 500, 'FAILED_PRECONDITION', 'The Gemini proxy has no API key. Set GEMINI_API_KEY in the server environment.', 'PROXY_NOT_CONFIGURED');
+  }
+
+  // Stop the upstream request when the browser goes away, e.g. when the user stops generating
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  let upstream;
+  try {
+    upstream = await axios({
+      method,
+      url: `${GEMINI_API_URL}${path}`,
+      params: req.query,
+      data: body,
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      responseType: 'stream',
+      timeout: UPSTREAM_TIMEOUT,
+      signal: controller.signal,
+      validateStatus: () => true
+    });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+
+    console.error('[Gemini Proxy] Upstream error:', error.message);
+    return sendError(res, 502, 'UNAVAILABLE', 'The Gemini proxy could not reach the Gemini API.', 'PROXY_UPSTREAM_ERROR');
+  }
+
+  res.status(upstream.status);
+  res.set('Content-Type', upstream.headers['content-type'] || 'application/json');
+  res.set('Cache-Control', 'no-cache');
+  res.set('X-Accel-Buffering', 'no'); // Keep reverse proxies from buffering streamed chunks
+
+  // Only the end of the response is kept, which is where the usage totals are
+  let tail = '';
+  upstream.data.on('data', chunk => {
+    tail = (tail + chunk.toString('utf8')).slice(-4096);
+  });
+  upstream.data.on('end', () => {
+    geminiQuota.recordTokens(userId, readTotalTokens(tail));
+  });
+  upstream.data.on('error', error => {
+    if (!controller.signal.aborted) {
+      console.error('[Gemini Proxy] Stream error:', error.message);
+    }
+    res.end();
+  });
+
+  upstream.data.pipe(res);
+}
+
+/**
+ * Refuse requests over the user's quota, and count the ones that are let through
+ */
+function applyQuota(req, res, billable) {
+  const userId = req.ip;
+  const exceeded = geminiQuota.check(userId, billable);
+
+  if (exceeded) {
+    const retryAfter = Math.ceil(exceeded.retryAfterMs / 1000);
+    res.set('Retry-After', String(retryAfter));
+    sendError(
+      res,
+      429,
+      'RESOURCE_EXHAUSTED',
+      `Gemini proxy quota exceeded (${exceeded.limit}). Try again in ${retryAfter} seconds.`,
+      'PROXY_QUOTA_EXCEEDED',
+      [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: `${retryAfter}s` }]
+    );
+    return null;
+  }
+
+  geminiQuota.recordRequest(userId, billable);
+  return userId;
+}
+
+/**
+ * GET /api/gemini/:version/models
+ * Lists the models available to the server's API key
+ */
+router.get('/:version/models', async (req, res) => {
+  const { version } = req.params;
+  if (!API_VERSIONS.includes(version)) {
+    return sendError(res, 404, 'NOT_FOUND', `Unknown API version: ${version}`, 'PROXY_UNSUPPORTED');
+  }
+
+  const userId = applyQuota(req, res, false);
+  if (!userId) return;
+
+  try {
+    await forward(req, res, { method: 'get', path: `/${version}/models`, userId });
+  } catch (error) {
+    console.error('[Gemini Proxy] Model listing error:', error);
+    if (!res.headersSent) {
+      sendError(res, 500, 'INTERNAL', 'The Gemini proxy failed', 'PROXY_ERROR');
+    }
+  }
+});
+
+/**
+ * POST /api/gemini/:version/models/:model::action
+ * Calls a model method, e.g. /api/gemini/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse
+ */
+router.post('/:version/models/:modelAction', async (req, res) => {
+  const { version, modelAction } = req.params;
+  const separator = modelAction.lastIndexOf(':');
+  const model = modelAction.slice(0, separator);
+  const action = modelAction.slice(separator + 1);
+  const billable = BILLABLE_ACTIONS.includes(action);
+
+  if (!API_VERSIONS.includes(version) || separator <= 0 || !/^[\w.-]+$/.test(model)) {
+    return sendError(res, 404, 'NOT_FOUND', `Unknown model path: ${modelAction}`, 'PROXY_UNSUPPORTED');
+  }
+  if (!billable && !FREE_ACTIONS.includes(action)) {
+    return sendError(res, 400, 'INVALID_ARGUMENT', `The Gemini proxy does not allow ${action}`, 'PROXY_UNSUPPORTED');
+  }
+
+  const userId = applyQuota(req, res, billable);
+  if (!userId) return;
+
+  try {
+    await forward(req, res, {
+      method: 'post',
+      path: `/${version}/models/${model}:${action}`,
+      body: req.body,
+      userId
+    });
+  } catch (error) {
+    console.error('[Gemini Proxy] Request error:', error);
+    if (!res.headersSent) {
+      sendError(res, 500, 'INTERNAL', 'The Gemini proxy failed', 'PROXY_ERROR');
+    }
+  }
+});
+
+module.exports = router;
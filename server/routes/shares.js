@@ -0,0 +1,174 @@
+/**
+ * API Routes for shared, read-only conversation links
+ */
+
+const express = require('express');
+const shareStore = require('../utils/shareStore');
+
+const router = express.Router();
+
+const MAX_MESSAGES = 500;
+const MAX_TITLE_LENGTH = 200;
+
+const MAX_TEXT_LENGTH = 2000;
+
+/**
+ * Trimmed string, or undefined when the value is not a string
+ */
+function optionalString(value, maxLength = MAX_TEXT_LENGTH) {
+  return typeof value === 'string' ? value.slice(0, maxLength) : undefined;
+}
+
+/**
+ * Keep a URL only when it is a web address, so links can't run script on the viewer's page
+ */
+function webUrl(value) {
+  if (typeof value !== 'string') return undefined;
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rebuild the cited or searched pages of an answer from their string fields,
+ * dropping entries without a web URL
+ */
+function sanitizeSources(value, withIds) {
+  if (!Array.isArray(value)) return undefined;
+
+  const sources = [];
+  for (const item of value) {
+    const url = item && typeof item === 'object' ? webUrl(item.url) : undefined;
+    if (!url) continue;
+
+    const source = {
+      title: optionalString(item.title, MAX_TITLE_LENGTH) || url,
+      url,
+      snippet: optionalString(item.snippet) || (withIds ? '' : undefined),
+      source: optionalString(item.source, MAX_TITLE_LENGTH) || (withIds ? '' : undefined),
+      favicon: withIds ? undefined : webUrl(item.favicon)
+    };
+    if (withIds) {
+      source.id = Number.isInteger(item.id) ? item.id : sources.length + 1;
+      source.relevance = Number(item.relevance) || 0;
+    }
+    sources.push(source);
+  }
+
+  return sources;
+}
+
+/**
+ * Keep only the fields a shared conversation is rendered from
+ * Returns null when the snapshot is not a conversation
+ */
+function sanitizeConversation(value) {
+  if (!value || typeof value !== 'object' || !Array.isArray(value.messages)) return null;
+  if (value.messages.length === 0 || value.messages.length > MAX_MESSAGES) return null;
+
+  const messages = [];
+  for (const message of value.messages) {
+    if (!message || (message.role !== 'user' && message.role !== 'assistant') || typeof message.content !== 'string') {
+      return null;
+    }
+
+    messages.push({
+      id: String(message.id || messages.length),
+      role: message.role,
+      content: message.content,
+      timestamp: Number(message.timestamp) || Date.now(),
+      modelId: optionalString(message.modelId, MAX_TITLE_LENGTH),
+      modelName: optionalString(message.modelName, MAX_TITLE_LENGTH),
+      isDeepSearch: message.isDeepSearch === true,
+      attachmentNames: Array.isArray(message.attachmentNames) ? message.attachmentNames.map(name => String(name).slice(0, MAX_TITLE_LENGTH)) : undefined,
+      citations: sanitizeSources(message.citations, true),
+      sources: sanitizeSources(message.sources, false)
+    });
+  }
+
+  return {
+    title: String(value.title || 'Shared conversation').slice(0, MAX_TITLE_LENGTH),
+    createdAt: Number(value.createdAt) || Date.now(),
+    messages
+  };
+}
+
+/**
+ * POST /api/shares
+ * Stores a snapshot of a conversation and returns its ID and the token that revokes it
+ */
+router.post('/', async (req, res) => {
+  try {
+    const conversation = sanitizeConversation(req.body && req.body.conversation);
+
+    if (!conversation) {
+      return res.status(400).json({
+        error: 'Invalid conversation',
+        message: `Provide a conversation with 1 to ${MAX_MESSAGES} messages`
+      });
+    }
+
+    const { id, revokeToken, sharedAt } = await shareStore.create(conversation);
+    return res.status(201).json({ id, revokeToken, sharedAt });
+  } catch (error) {
+    console.error('[Shares API] Create error:', error);
+    return res.status(500).json({ error: 'Could not create the share', message: error.message });
+  }
+});
+
+/**
+ * GET /api/shares/:id
+ * Returns a shared conversation, 404 for unknown links and 410 for revoked ones
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const result = await shareStore.get(req.params.id);
+
+    if (result.status === 'not-found') {
+      return res.status(404).json({ error: 'Share not found' });
+    }
+    if (result.status === 'revoked') {
+      return res.status(410).json({ error: 'Share revoked' });
+    }
+
+    // Sanitized again on the way out, for snapshots stored before sources were rebuilt on create
+    const { id, sharedAt } = result.share;
+    const conversation = sanitizeConversation(result.share);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Share not found' });
+    }
+
+    return res.json({ share: { id, sharedAt, ...conversation } });
+  } catch (error) {
+    console.error('[Shares API] Read error:', error);
+    return res.status(500).json({ error: 'Could not load the share', message: error.message });
+  }
+});
+
+/**
+ * DELETE /api/shares/:id
+ * Revokes a share; requires the revoke token in the X-Revoke-Token header
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await shareStore.revoke(req.params.id, req.get('X-Revoke-Token'));
+
+    if (result === 'not-found') {
+      return res.status(404).json({ error: 'Share not found' });
+    }
+    if (result === 'forbidden') {
+      return res.status(403).json({ error: 'Invalid revoke token' });
+    }
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error('[Shares API] Revoke error:', error);
+    return res.status(500).json({ error: 'Could not revoke the share', message: error.message });
+  }
+});
+
+module.exports = router;
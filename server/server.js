@@ -7,12 +7,31 @@ const express = require('express');
 const cors = require('cors');
 const helmet = require('helmet');
 const apiRoutes = require('./routes/api');
+const shareRoutes = require('./routes/shares');
+const geminiRoutes = require('./routes/gemini');
 const { RateLimiterMemory } = require('rate-limiter-flexible');
 
 // Create Express app
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+/**
+ * Turn TRUST_PROXY into an Express 'trust proxy' setting
+ * Express reads a string as addresses, so hop counts and booleans have to be converted
+ */
+function parseTrustProxy(value) {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+
+  return value.split(',').map(address => address.trim()).filter(Boolean);
+}
+
+// Behind a reverse proxy, req.ip has to come from X-Forwarded-For, or every user shares one quota
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY.trim()));
+}
+
 // Rate limiter configuration - 20 requests per minute per IP
 const rateLimiter = new RateLimiterMemory({
   points: 20, // Number of requests
@@ -21,8 +40,8 @@ const rateLimiter = new RateLimiterMemory({
 
 // Apply rate limiting middleware
 const rateLimiterMiddleware = (req, res, next) => {
-  // Skip rate limiting for health checks
-  if (req.path === '/api/health') {
+  // Skip rate limiting for health checks, and for the Gemini proxy, which has its own quotas
+  if (req.path === '/api/health' || req.path.startsWith('/api/gemini/')) {
     return next();
   }
   
@@ -36,13 +55,23 @@ const rateLimiterMiddleware = (req, res, next) => {
     });
 };
 
+// Shared conversation snapshots can be much larger than search requests
+const SHARE_BODY_LIMIT = '5mb';
+
+// Generation requests carry the conversation history and attachments as base64
+const GEMINI_BODY_LIMIT = '20mb';
+
 // Middleware
 app.use(helmet()); // Security headers
 app.use(cors()); // Enable CORS
+app.use('/api/shares', express.json({ limit: SHARE_BODY_LIMIT })); // Parse share snapshots before the default parser
+app.use('/api/gemini', express.json({ limit: GEMINI_BODY_LIMIT })); // Same for proxied Gemini requests
 app.use(express.json()); // Parse JSON bodies
 app.use(rateLimiterMiddleware); // Apply rate limiting
 
 // API Routes
+app.use('/api/shares', shareRoutes);
+app.use('/api/gemini', geminiRoutes);
 app.use('/api', apiRoutes);
 
 // Default route
@@ -0,0 +1,127 @@
+/**
+ * Per-user quotas for the Gemini proxy
+ * Users are told apart by IP address; usage is kept in memory and resets when the server restarts
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Read a limit from the environment; 0 turns the limit off
+ */
+function readLimit(name, fallback) {
+  const value = parseInt(process.env[name], 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+}
+
+const DEFAULT_LIMITS = {
+  requestsPerMinute: readLimit('GEMINI_PROXY_REQUESTS_PER_MINUTE', 30),
+  // Token counts and model listings get their own budget, so counting a draft while typing never blocks sending it
+  freeRequestsPerMinute: readLimit('GEMINI_PROXY_FREE_REQUESTS_PER_MINUTE', 120),
+  requestsPerDay: readLimit('GEMINI_PROXY_REQUESTS_PER_DAY', 500),
+  tokensPerDay: readLimit('GEMINI_PROXY_TOKENS_PER_DAY', 1000000)
+};
+
+class GeminiQuota {
+  constructor(limits = DEFAULT_LIMITS) {
+    this.limits = limits;
+    this.usage = new Map();
+
+    // Forget users whose daily window has ended, so the map does not grow forever
+    this.pruneTimer = setInterval(() => this.prune(), 60 * MINUTE_MS);
+    this.pruneTimer.unref();
+
+    console.log(`[Gemini Quota] ${this.describeLimit(limits.requestsPerMinute)} requests and ` +
+      `${this.describeLimit(limits.freeRequestsPerMinute)} free requests per minute, ` +
+      `${this.describeLimit(limits.requestsPerDay)} requests and ${this.describeLimit(limits.tokensPerDay)} tokens per day per user`);
+  }
+
+  describeLimit(limit) {
+    return limit > 0 ? limit.toLocaleString() : 'unlimited';
+  }
+
+  /**
+   * Get the usage of a user, starting new windows where the previous ones have ended
+   * Windows start at a user's first request rather than on the clock
+   */
+  getUsage(userId, now = Date.now()) {
+    let usage = this.usage.get(userId);
+
+    if (!usage) {
+      usage = { minuteStart: now, minuteRequests: 0, minuteFreeRequests: 0, dayStart: now, dayRequests: 0, dayTokens: 0 };
+      this.usage.set(userId, usage);
+    }
+    if (now - usage.minuteStart >= MINUTE_MS) {
+      usage.minuteStart = now;
+      usage.minuteRequests = 0;
+      usage.minuteFreeRequests = 0;
+    }
+    if (now - usage.dayStart >= DAY_MS) {
+      usage.dayStart = now;
+      usage.dayRequests = 0;
+      usage.dayTokens = 0;
+    }
+
+    return usage;
+  }
+
+  /**
+   * Check whether a user may make another request
+   * @param billable Whether the request generates or embeds content; free calls such as token counts
+   * only count against their own per-minute limit
+   * @returns null when the request is allowed, or the limit that was reached and when it resets
+   */
+  check(userId, billable, now = Date.now()) {
+    const usage = this.getUsage(userId, now);
+    const { requestsPerMinute, freeRequestsPerMinute, requestsPerDay, tokensPerDay } = this.limits;
+
+    if (!billable) {
+      return freeRequestsPerMinute > 0 && usage.minuteFreeRequests >= freeRequestsPerMinute
+        ? { limit: 'free-requests-per-minute', retryAfterMs: usage.minuteStart + MINUTE_MS - now }
+        : null;
+    }
+
+    if (requestsPerMinute > 0 && usage.minuteRequests >= requestsPerMinute) {
+      return { limit: 'requests-per-minute', retryAfterMs: usage.minuteStart + MINUTE_MS - now };
+    }
+    if (requestsPerDay > 0 && usage.dayRequests >= requestsPerDay) {
+      return { limit: 'requests-per-day', retryAfterMs: usage.dayStart + DAY_MS - now };
+    }
+    if (tokensPerDay > 0 && usage.dayTokens >= tokensPerDay) {
+      return { limit: 'tokens-per-day', retryAfterMs: usage.dayStart + DAY_MS - now };
+    }
+
+    return null;
+  }
+
+  recordRequest(userId, billable, now = Date.now()) {
+    const usage = this.getUsage(userId, now);
+    if (billable) {
+      usage.minuteRequests++;
+      usage.dayRequests++;
+    } else {
+      usage.minuteFreeRequests++;
+    }
+  }
+
+  /**
+   * Add the tokens of a finished response
+   * Tokens are only known once the response is done, so the request that crosses the limit is let through
+   */
+  recordTokens(userId, tokens, now = Date.now()) {
+    if (tokens > 0) {
+      this.getUsage(userId, now).dayTokens += tokens;
+    }
+  }
+
+  prune(now = Date.now()) {
+    for (const [userId, usage] of this.usage) {
+      if (now - usage.dayStart >= DAY_MS) {
+        this.usage.delete(userId);
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+module.exports = new GeminiQuota();
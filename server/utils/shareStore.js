@@ -0,0 +1,119 @@
+/**
+ * Shared conversation storage
+ * Each share is a JSON file named after its ID, so shares survive restarts without a database
+ */
+
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+
+const DATA_DIR = process.env.SHARE_DATA_DIR || path.join(__dirname, '..', 'data', 'shares');
+
+// Share IDs are 128 random bits in hex, so links cannot be guessed or enumerated
+const SHARE_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+/**
+ * Hash a revoke token; only the hash is stored, so a leaked data directory cannot revoke shares
+ */
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+class ShareStore {
+  constructor(dataDir = DATA_DIR) {
+    this.dataDir = dataDir;
+    this.ready = fs.mkdir(dataDir, { recursive: true });
+  }
+
+  /**
+   * Check that an ID has the shape of a share ID before it is used in a file path
+   */
+  isValidId(id) {
+    return typeof id === 'string' && SHARE_ID_PATTERN.test(id);
+  }
+
+  getFilePath(id) {
+    return path.join(this.dataDir, `${id}.json`);
+  }
+
+  async read(id) {
+    try {
+      return JSON.parse(await fs.readFile(this.getFilePath(id), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Write a share through a temporary file, so a crash never leaves half a snapshot behind
+   */
+  async write(record) {
+    await this.ready;
+    const filePath = this.getFilePath(record.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(record), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Store a conversation snapshot under a new ID
+   * @returns {Promise<{id: string, revokeToken: string, sharedAt: string}>}
+   */
+  async create(conversation) {
+    const id = crypto.randomBytes(16).toString('hex');
+    const revokeToken = crypto.randomBytes(24).toString('hex');
+    const sharedAt = new Date().toISOString();
+
+    await this.write({
+      id,
+      sharedAt,
+      revokeTokenHash: hashToken(revokeToken),
+      conversation
+    });
+
+    console.log(`[Shares] Created share ${id} (${conversation.messages.length} messages)`);
+    return { id, revokeToken, sharedAt };
+  }
+
+  /**
+   * Get a share as shown to viewers
+   * @returns {Promise<{status: 'ok', share: object} | {status: 'revoked' | 'not-found'}>}
+   */
+  async get(id) {
+    if (!this.isValidId(id)) return { status: 'not-found' };
+
+    const record = await this.read(id);
+    if (!record) return { status: 'not-found' };
+    if (record.revokedAt) return { status: 'revoked' };
+
+    return {
+      status: 'ok',
+      share: { id: record.id, sharedAt: record.sharedAt, ...record.conversation }
+    };
+  }
+
+  /**
+   * Revoke a share with the token returned when it was created
+   * The snapshot is deleted; a tombstone is kept so viewers are told the link was revoked
+   * @returns {Promise<'revoked' | 'not-found' | 'forbidden'>}
+   */
+  async revoke(id, revokeToken) {
+    if (!this.isValidId(id)) return 'not-found';
+
+    const record = await this.read(id);
+    if (!record) return 'not-found';
+    if (record.revokedAt) return 'revoked';
+
+    const expected = Buffer.from(record.revokeTokenHash, 'hex');
+    const actual = Buffer.from(hashToken(String(revokeToken || '')), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) return 'forbidden';
+
+    await this.write({ id, sharedAt: record.sharedAt, revokedAt: new Date().toISOString() });
+    console.log(`[Shares] Revoked share ${id}`);
+    return 'revoked';
+  }
+}
+
+// Export a singleton instance
+module.exports = new ShareStore();
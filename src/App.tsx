@@ -5,6 +5,8 @@ import { GeminiServiceProvider } from './features/gemini/context/GeminiServiceCo
 import { ChatProvider } from './features/chat/context/ChatContext';
 import { AppLayout } from './features/chat';
 import FormatExampleMessage from './features/chat/components/FormatExampleMessage';
+import UsageDashboard from './features/chat/components/UsageDashboard';
+import SharedConversationView from './features/chat/components/SharedConversationView';
 import DependencyTest from './features/chat/components/DependencyTest';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ThemeToggle } from './shared/components';
@@ -39,6 +41,7 @@ const MainHeader = () => {
         <nav className="flex space-x-4">
           <NavLink to="/">Chat</NavLink>
           <NavLink to="/format-examples">Format Examples</NavLink>
+          <NavLink to="/usage">Usage</NavLink>
           <NavLink to="/dependency-test">Dependency Test</NavLink>
         </nav>
         
@@ -126,6 +129,36 @@ function App() {
                     </>
                   } 
                 />
+                <Route 
+                  path="/usage" 
+                  element={
+                    <>
+                      <MainHeader />
+                      <MainLayout>
+                        <PageTransition>
+                          <div className="w-full h-full overflow-auto bg-black p-6">
+                            <UsageDashboard />
+                          </div>
+                        </PageTransition>
+                      </MainLayout>
+                    </>
+                  } 
+                />
+                <Route 
+                  path="/share/:id" 
+                  element={
+                    <>
+                      <MainHeader />
+                      <MainLayout>
+                        <PageTransition>
+                          <div className="w-full h-full overflow-auto bg-black p-6">
+                            <SharedConversationView />
+                          </div>
+                        </PageTransition>
+                      </MainLayout>
+                    </>
+                  } 
+                />
                 <Route 
                   path="/dependency-test" 
                   element={
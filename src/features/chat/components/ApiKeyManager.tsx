@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { useGeminiService } from '../../gemini/context/GeminiServiceContext';
+import { canEncryptApiKeys } from '../../gemini/utils/apiKeys';
+
+// Entry in the key list for the key or proxy the app was deployed with
+const DEFAULT_KEY_ID = 'default';
+
+type TestResult = { status: 'testing' } | { status: 'ok' } | { status: 'error'; message: string };
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Result of testing a key, shown next to it
+ */
+const TestResultLabel: React.FC<{ result?: TestResult }> = ({ result }) => {
+  if (!result) return null;
+
+  if (result.status === 'testing') {
+    return <span className="text-xs text-gray-400">Testing…</span>;
+  }
+  if (result.status === 'ok') {
+    return <span className="text-xs text-green-400">Key works</span>;
+  }
+  return <span className="text-xs text-red-400">{result.message}</span>;
+};
+
+/**
+ * Lists the API keys saved in this browser and adds new ones
+ * Each key can be tested with a free model listing request before it is used
+ */
+const ApiKeyManager: React.FC = () => {
+  const {
+    keyStatus,
+    savedKeys,
+    activeKeyId,
+    unlockedKeyIds,
+    defaultTransportMode,
+    addApiKey,
+    removeApiKey,
+    selectApiKey,
+    unlockApiKey,
+    testApiKey,
+    testSavedApiKey
+  } = useGeminiService();
+
+  const [testResults, setTestResults] = useState<Record<string, TestResult>>({});
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+
+  const [label, setLabel] = useState('');
+  const [newKey, setNewKey] = useState('');
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const encryptionAvailable = canEncryptApiKeys();
+  // The locked key in use is unlocked straight away, without waiting for a click
+  const lockedActiveId = activeKeyId && savedKeys.find(key => key.id === activeKeyId)?.encrypted && !unlockedKeyIds.includes(activeKeyId)
+    ? activeKeyId
+    : null;
+  const shownUnlockId = unlockingId ?? lockedActiveId;
+  // On first run nothing is in use until the user picks the default or adds a key
+  const defaultInUse = activeKeyId === null && keyStatus === 'ready';
+
+  const runTest = async (id: string, test: () => Promise<void>) => {
+    setTestResults(prev => ({ ...prev, [id]: { status: 'testing' } }));
+    try {
+      await test();
+      setTestResults(prev => ({ ...prev, [id]: { status: 'ok' } }));
+    } catch (error) {
+      setTestResults(prev => ({ ...prev, [id]: { status: 'error', message: getErrorMessage(error) } }));
+    }
+  };
+
+  const handleUse = (id: string, locked: boolean) => {
+    if (locked) {
+      setUnlockingId(id);
+      setUnlockPassphrase('');
+      setUnlockError(null);
+      return;
+    }
+    selectApiKey(id);
+  };
+
+  const handleUnlock = async (id: string) => {
+    setUnlockError(null);
+    try {
+      await unlockApiKey(id, unlockPassphrase);
+      selectApiKey(id);
+      setUnlockingId(null);
+      setUnlockPassphrase('');
+    } catch (error) {
+      setUnlockError(getErrorMessage(error));
+    }
+  };
+
+  const handleRemove = (id: string, keyLabel: string) => {
+    if (window.confirm(`Remove the key "${keyLabel}" from this browser?`)) {
+      removeApiKey(id);
+    }
+  };
+
+  const handleSave = async () => {
+    setFormError(null);
+
+    if (!newKey.trim()) {
+      setFormError('Enter an API key');
+      return;
+    }
+    if (encrypt && passphrase.length < 8) {
+      setFormError('Use a passphrase of at least 8 characters');
+      return;
+    }
+    if (encrypt && passphrase !== confirmPassphrase) {
+      setFormError('The passphrases do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addApiKey({ label, apiKey: newKey, passphrase: encrypt ? passphrase : undefined });
+      setLabel('');
+      setNewKey('');
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setEncrypt(false);
+      setTestResults(({ new: _tested, ...rest }) => rest);
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-[#252525] text-gray-200 border border-[#333] rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+  const smallButtonClass = 'px-2 py-1 rounded text-xs text-gray-300 hover:bg-[#333] hover:text-white disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-sm font-medium text-gray-300 mb-2">Keys</h3>
+        <ul className="space-y-2">
+          <li className={`p-3 rounded-md border ${defaultInUse ? 'border-blue-600 bg-blue-950/20' : 'border-[#333] bg-[#252525]'}`}>
+            <div className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-200">
+                  {defaultTransportMode === 'proxy' ? "This server's key" : 'Key this app was built with'}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {defaultTransportMode === 'proxy'
+                    ? 'Requests go through the server, which holds the key and limits how much each user can use'
+                    : 'Bundled into the page by whoever deployed the app'}
+                </div>
+              </div>
+              <button onClick={() => runTest(DEFAULT_KEY_ID, () => testApiKey(null))} className={smallButtonClass}>
+                Test
+              </button>
+              {defaultInUse ? (
+                <span className="px-2 py-1 text-xs text-blue-300">In use</span>
+              ) : (
+                <button onClick={() => selectApiKey(null)} className={smallButtonClass}>Use</button>
+              )}
+            </div>
+            <TestResultLabel result={testResults[DEFAULT_KEY_ID]} />
+          </li>
+
+          {savedKeys.map(savedKey => {
+            const locked = !!savedKey.encrypted && !unlockedKeyIds.includes(savedKey.id);
+            const isActive = savedKey.id === activeKeyId;
+
+            return (
+              <li
+                key={savedKey.id}
+                className={`p-3 rounded-md border ${isActive ? 'border-blue-600 bg-blue-950/20' : 'border-[#333] bg-[#252525]'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-gray-200 truncate">{savedKey.label}</div>
+                    <div className="text-xs text-gray-500">
+                      {savedKey.encrypted ? (locked ? 'Encrypted, locked' : 'Encrypted, unlocked for this session') : savedKey.hint}
+                      {' · '}added {new Date(savedKey.createdAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => runTest(savedKey.id, () => testSavedApiKey(savedKey.id))}
+                    disabled={locked}
+                    title={locked ? 'Unlock the key to test it' : undefined}
+                    className={smallButtonClass}
+                  >
+                    Test
+                  </button>
+                  {isActive && !locked ? (
+                    <span className="px-2 py-1 text-xs text-blue-300">In use</span>
+                  ) : (
+                    <button onClick={() => handleUse(savedKey.id, locked)} className={smallButtonClass}>
+                      {locked ? 'Unlock' : 'Use'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRemove(savedKey.id, savedKey.label)}
+                    className="px-2 py-1 rounded text-xs text-red-400 hover:bg-red-950/40"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <TestResultLabel result={testResults[savedKey.id]} />
+
+                {shownUnlockId === savedKey.id && locked && (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleUnlock(savedKey.id);
+                    }}
+                    className="mt-2 flex gap-2"
+                  >
+                    <input
+                      type="password"
+                      value={unlockPassphrase}
+                      onChange={(e) => setUnlockPassphrase(e.target.value)}
+                      placeholder="Passphrase"
+                      autoComplete="current-password"
+                      autoFocus
+                      className={inputClass}
+                    />
+                    <button
+                      type="submit"
+                      disabled={!unlockPassphrase}
+                      className="px-3 py-1.5 rounded-md text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Unlock
+                    </button>
+                  </form>
+                )}
+                {shownUnlockId === savedKey.id && locked && unlockError && (
+                  <div className="mt-1 text-xs text-red-400">{unlockError}</div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-300 mb-1">Add your own key</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Create a key in{' '}
+          <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+            Google AI Studio
+          </a>
+          . It is stored in this browser only and sent straight to Google. Without a passphrase, anyone with access to
+          this browser profile can read it.
+        </p>
+
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Name, e.g. the project it belongs to"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            placeholder="API key"
+            autoComplete="off"
+            className={inputClass}
+          />
+
+          <label className={`flex items-center gap-2 text-sm ${encryptionAvailable ? 'text-gray-300' : 'text-gray-500'}`}>
+            <input
+              type="checkbox"
+              checked={encrypt}
+              disabled={!encryptionAvailable}
+              onChange={(e) => setEncrypt(e.target.checked)}
+            />
+            Encrypt with a passphrase
+            {!encryptionAvailable && <span className="text-xs">(needs HTTPS)</span>}
+          </label>
+
+          {encrypt && (
+            <>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder="Repeat the passphrase"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500">
+                The passphrase is asked for once per session and cannot be recovered; a forgotten passphrase means adding the key again.
+              </p>
+            </>
+          )}
+
+          {formError && <div className="text-xs text-red-400">{formError}</div>}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => runTest('new', () => testApiKey(newKey))}
+              disabled={!newKey.trim() || testResults.new?.status === 'testing'}
+              className="px-3 py-1.5 rounded-md text-sm text-gray-300 bg-[#1d1e20] border border-[#333] hover:bg-[#252525] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Test key
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!newKey.trim() || isSaving}
+              className="px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving…' : 'Save and use'}
+            </button>
+            <TestResultLabel result={testResults.new} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyManager;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { useGeminiService } from '../../gemini/context/GeminiServiceContext';
+import ApiKeyManager from './ApiKeyManager';
+
+/**
+ * Screen shown instead of the chat until there is a key to use:
+ * on first run when the deployment does not choose a transport, or while the saved key in use is locked
+ */
+const ApiKeySetup: React.FC = () => {
+  const { keyStatus } = useGeminiService();
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="max-w-lg mx-auto px-4 py-10">
+        <h2 className="text-xl font-bold text-white mb-2">
+          {keyStatus === 'locked' ? 'Unlock your API key' : 'Connect to Gemini'}
+        </h2>
+        <p className="text-sm text-gray-400 mb-6">
+          {keyStatus === 'locked'
+            ? 'The key in use is encrypted. Enter its passphrase to start chatting, or pick another key.'
+            : 'Choose how to reach the Gemini API: through this server, or with your own API key. You can switch keys later from the header.'}
+        </p>
+        <div className="bg-[#1d1e20] border border-[#333] rounded-lg p-4">
+          <ApiKeyManager />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySetup;
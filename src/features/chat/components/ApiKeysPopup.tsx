@@ -0,0 +1,45 @@
+import { forwardRef } from 'react';
+import { motion } from 'framer-motion';
+import ApiKeyManager from './ApiKeyManager';
+
+interface ApiKeysPopupProps {
+  onClose: () => void;
+}
+
+/**
+ * Popup for switching between saved API keys and adding new ones
+ */
+const ApiKeysPopup = forwardRef<HTMLDivElement, ApiKeysPopupProps>(({ onClose }, ref) => {
+  return (
+    <motion.div
+      ref={ref}
+      initial={{ scale: 0.95, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      exit={{ scale: 0.95, opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="bg-[#1d1e20] rounded-xl shadow-xl border border-[#333] w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col"
+    >
+      <div className="p-4 border-b border-[#333] flex justify-between items-center">
+        <h2 className="text-lg font-medium text-white">API Keys</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-full hover:bg-[#333] text-gray-400 hover:text-white transition-colors"
+          aria-label="Close"
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <line x1="18" y1="6" x2="6" y2="18"></line>
+            <line x1="6" y1="6" x2="18" y2="18"></line>
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <ApiKeyManager />
+      </div>
+    </motion.div>
+  );
+});
+
+ApiKeysPopup.displayName = 'ApiKeysPopup';
+
+export default ApiKeysPopup;
@@ -5,6 +5,12 @@ import ChatInput from './ChatInput';
 import { AnimatePresence, motion } from 'framer-motion';
 import { useChat } from '../context/ChatContext';
 import HistoryPopup from './HistoryPopup';
+import ConversationSettings from './ConversationSettings';
+import SharePopup from './SharePopup';
+import ApiKeysPopup from './ApiKeysPopup';
+import ApiKeySetup from './ApiKeySetup';
+import { useGeminiService } from '../../gemini/context/GeminiServiceContext';
+import { Attachment } from '../../gemini/types/gemini.types';
 
 interface AppLayoutProps {
   children?: ReactNode;
@@ -16,9 +22,16 @@ interface AppLayoutProps {
 const AppLayout: React.FC<AppLayoutProps> = () => {
   const [showHistory, setShowHistory] = useState(false);
   const historyRef = useRef<HTMLDivElement>(null);
-  const { startNewConversation, sendMessage, isLoading } = useChat();
+  const [showSettings, setShowSettings] = useState(false);
+  const settingsRef = useRef<HTMLDivElement>(null);
+  const [showShare, setShowShare] = useState(false);
+  const shareRef = useRef<HTMLDivElement>(null);
+  const [showKeys, setShowKeys] = useState(false);
+  const keysRef = useRef<HTMLDivElement>(null);
+  const { startNewConversation, sendMessage, stopGeneration, isLoading } = useChat();
+  const { keyStatus } = useGeminiService();
   
-  // Handle clicking outside the history popup
+  // Handle clicking outside the popups
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (showHistory && 
@@ -26,6 +39,24 @@ const AppLayout: React.FC<AppLayoutProps> = () => {
           !historyRef.current.contains(event.target as Node)) {
         setShowHistory(false);
       }
+      
+      if (showSettings && 
+          settingsRef.current && 
+          !settingsRef.current.contains(event.target as Node)) {
+        setShowSettings(false);
+      }
+      
+      if (showShare && 
+          shareRef.current && 
+          !shareRef.current.contains(event.target as Node)) {
+        setShowShare(false);
+      }
+      
+      if (showKeys && 
+          keysRef.current && 
+          !keysRef.current.contains(event.target as Node)) {
+        setShowKeys(false);
+      }
     };
     
     document.addEventListener('mousedown', handleClickOutside);
@@ -33,7 +64,7 @@ const AppLayout: React.FC<AppLayoutProps> = () => {
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showHistory]);
+  }, [showHistory, showSettings, showShare, showKeys]);
   
   // Handle keyboard shortcuts
   useEffect(() => {
@@ -62,26 +93,50 @@ const AppLayout: React.FC<AppLayoutProps> = () => {
     setShowHistory(prev => !prev);
   };
   
-  const handleSendMessage = (message: string) => {
-    sendMessage(message);
+  const toggleSettings = () => {
+    setShowSettings(prev => !prev);
+  };
+  
+  const toggleShare = () => {
+    setShowShare(prev => !prev);
+  };
+  
+  const toggleKeys = () => {
+    setShowKeys(prev => !prev);
+  };
+  
+  const handleSendMessage = (message: string, attachments?: Attachment[]) => {
+    sendMessage(message, attachments);
   };
   
   return (
     <div className="flex flex-col h-screen bg-black">
       <Header 
         toggleHistory={toggleHistory}
+        toggleSettings={toggleSettings}
+        toggleShare={toggleShare}
+        toggleKeys={toggleKeys}
         onClearChat={startNewConversation}
       />
       
       <div className="flex-1 overflow-hidden flex flex-col">
-        <Chat />
-        
-        <div className="p-4 border-t border-[#222] bg-[#0E0E0F]">
-          <ChatInput 
-            onSendMessage={handleSendMessage}
-            disabled={isLoading}
-          />
-        </div>
+        {/* Until there is a key to use, the key setup takes the place of the chat */}
+        {keyStatus !== 'ready' ? (
+          <ApiKeySetup />
+        ) : (
+          <>
+            <Chat />
+            
+            <div className="p-4 border-t border-[#222] bg-[#0E0E0F]">
+              <ChatInput 
+                onSendMessage={handleSendMessage}
+                disabled={isLoading}
+                isGenerating={isLoading}
+                onStop={stopGeneration}
+              />
+            </div>
+          </>
+        )}
       </div>
       
       <AnimatePresence>
@@ -100,6 +155,57 @@ const AppLayout: React.FC<AppLayoutProps> = () => {
           </motion.div>
         )}
       </AnimatePresence>
+      
+      <AnimatePresence>
+        {showSettings && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+          >
+            <ConversationSettings 
+              ref={settingsRef}
+              onClose={() => setShowSettings(false)}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+      
+      <AnimatePresence>
+        {showShare && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+          >
+            <SharePopup 
+              ref={shareRef}
+              onClose={() => setShowShare(false)}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+      
+      <AnimatePresence>
+        {showKeys && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+          >
+            <ApiKeysPopup 
+              ref={keysRef}
+              onClose={() => setShowKeys(false)}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Attachment } from '../../gemini/types/gemini.types';
+import { getAttachmentDataUrl, formatFileSize } from '../../../shared/utils/attachments';
+
+interface AttachmentPreviewProps {
+  attachments: Attachment[];
+  onRemove?: (id: string) => void;
+  size?: 'small' | 'large';
+}
+
+/**
+ * AttachmentPreview component for showing image thumbnails and file chips
+ * Used both for pending attachments in ChatInput and sent attachments in the message list
+ */
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachments, onRemove, size = 'small' }) => {
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  const thumbnailSize = size === 'large' ? 'w-32 h-32' : 'w-14 h-14';
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map(attachment => {
+        const isImage = attachment.mimeType.startsWith('image/');
+
+        return (
+          <div key={attachment.id} className="relative group" title={`${attachment.name} (${formatFileSize(attachment.size)})`}>
+            {isImage ? (
+              <a href={getAttachmentDataUrl(attachment)} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={getAttachmentDataUrl(attachment)}
+                  alt={attachment.name}
+                  className={`${thumbnailSize} object-cover rounded-md border border-[#333]`}
+                />
+              </a>
+            ) : (
+              <div className="flex items-center h-14 px-3 rounded-md border border-[#333] bg-[#252525] text-sm text-gray-300 max-w-[200px]">
+                <svg className="w-5 h-5 mr-2 flex-shrink-0 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path>
+                </svg>
+                <div className="min-w-0">
+                  <div className="truncate">{attachment.name}</div>
+                  <div className="text-xs text-gray-500">{formatFileSize(attachment.size)}</div>
+                </div>
+              </div>
+            )}
+
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(attachment.id)}
+                className="absolute -top-2 -right-2 w-5 h-5 flex items-center justify-center rounded-full bg-[#333] text-gray-300 hover:bg-red-600 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title={`Remove ${attachment.name}`}
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                </svg>
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AttachmentPreview;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { HarmProbability } from '@google/generative-ai';
+import { BlockedResponseInfo } from '../../gemini/types/gemini.types';
+import { formatSafetyLabel } from '../../../shared/utils/safety';
+
+interface BlockedResponseNoticeProps {
+  blockInfo?: BlockedResponseInfo;
+  hasPartialContent?: boolean;
+}
+
+const PROBABILITY_STYLES: Record<string, string> = {
+  [HarmProbability.NEGLIGIBLE]: 'bg-gray-800 text-gray-400',
+  [HarmProbability.LOW]: 'bg-yellow-900/40 text-yellow-300',
+  [HarmProbability.MEDIUM]: 'bg-orange-900/40 text-orange-300',
+  [HarmProbability.HIGH]: 'bg-red-900/50 text-red-300'
+};
+
+/**
+ * BlockedResponseNotice component for explaining why the safety filters blocked a prompt or response
+ */
+const BlockedResponseNotice: React.FC<BlockedResponseNoticeProps> = ({ blockInfo, hasPartialContent = false }) => {
+  const [showRatings, setShowRatings] = useState(false);
+
+  const isPromptBlocked = blockInfo?.stage === 'prompt';
+  const reason = isPromptBlocked ? blockInfo?.blockReason : blockInfo?.finishReason;
+  const ratings = blockInfo?.safetyRatings || [];
+
+  return (
+    <div className={`${hasPartialContent ? 'mt-3' : ''} rounded-lg border border-red-900/60 bg-red-950/20 p-3 text-sm`}>
+      <div className="flex items-start gap-2">
+        <svg className="w-4 h-4 mt-0.5 shrink-0 text-red-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path>
+          <line x1="12" y1="8" x2="12" y2="12"></line>
+          <line x1="12" y1="16" x2="12.01" y2="16"></line>
+        </svg>
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-red-300">
+            {isPromptBlocked
+              ? 'Your prompt was blocked by the safety filters'
+              : hasPartialContent
+                ? 'The rest of this response was blocked by the safety filters'
+                : 'This response was blocked by the safety filters'}
+          </div>
+          <div className="text-xs text-gray-400 mt-0.5">
+            {reason ? `Reason: ${formatSafetyLabel(reason)}` : 'No reason was given'}
+            {blockInfo?.blockReasonMessage && ` · ${blockInfo.blockReasonMessage}`}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            You can rephrase the prompt, or adjust the safety thresholds in the conversation settings.
+          </div>
+
+          {ratings.length > 0 && (
+            <>
+              <button
+                onClick={() => setShowRatings(!showRatings)}
+                className="mt-2 text-xs text-gray-400 hover:text-white"
+              >
+                {showRatings ? 'Hide' : 'Show'} safety ratings
+              </button>
+
+              {showRatings && (
+                <ul className="mt-2 space-y-1">
+                  {ratings.map(rating => (
+                    <li key={rating.category} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-gray-300">{formatSafetyLabel(rating.category)}</span>
+                      <span className={`px-2 py-0.5 rounded-full font-medium ${PROBABILITY_STYLES[rating.probability] || 'bg-gray-800 text-gray-400'}`}>
+                        {formatSafetyLabel(rating.probability)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlockedResponseNotice;
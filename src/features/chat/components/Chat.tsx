@@ -1,9 +1,18 @@
 import React, { useRef, useEffect, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
 import { useChat } from '../context/ChatContext';
 import ThinkingIndicator from './ThinkingIndicator';
 import WelcomeMessage from './WelcomeMessage';
 import MessageRenderer from '../../../shared/components/MessageRenderer';
+import AttachmentPreview from './AttachmentPreview';
+import RegenerateMenu from './RegenerateMenu';
+import ResponseComparison from './ResponseComparison';
+import BlockedResponseNotice from './BlockedResponseNotice';
+import ErrorNotice from './ErrorNotice';
 import { ThinkingProcess } from '../../gemini/types/gemini.types';
+import { Message } from '../types/chat.types';
+import { getSiblings } from '../utils/messageTree';
+import { formatCost, formatTokenCount } from '../utils/usage';
 
 // Conversation title component with edit functionality
 const ConversationTitle: React.FC = () => {
@@ -31,8 +40,9 @@ const ConversationTitle: React.FC = () => {
   };
   
   const handleSave = () => {
-    if (activeConversation && titleValue.trim()) {
-      updateConversationTitle(activeConversation.id, titleValue);
+    // Leaving the title unchanged should not count as renaming it
+    if (activeConversation && titleValue.trim() && titleValue.trim() !== activeConversation.title) {
+      updateConversationTitle(activeConversation.id, titleValue.trim());
     }
     setIsEditing(false);
   };
@@ -71,14 +81,92 @@ const ConversationTitle: React.FC = () => {
   );
 };
 
+// Arrows for switching between alternative versions of a message
+const BranchNavigator: React.FC<{ message: Message; allMessages: Message[]; disabled?: boolean }> = ({ 
+  message, 
+  allMessages, 
+  disabled = false 
+}) => {
+  const { switchBranch } = useChat();
+  const siblings = getSiblings(allMessages, message);
+  const index = siblings.findIndex(sibling => sibling.id === message.id);
+  
+  if (siblings.length < 2) return null;
+  
+  const buttonClass = 'p-0.5 rounded hover:bg-[#333] hover:text-white disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed';
+  
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500">
+      <button
+        onClick={() => switchBranch(siblings[index - 1].id)}
+        disabled={disabled || index === 0}
+        className={buttonClass}
+        aria-label="Previous version"
+      >
+        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <polyline points="15 18 9 12 15 6"></polyline>
+        </svg>
+      </button>
+      <span>{index + 1} / {siblings.length}</span>
+      <button
+        onClick={() => switchBranch(siblings[index + 1].id)}
+        disabled={disabled || index === siblings.length - 1}
+        className={buttonClass}
+        aria-label="Next version"
+      >
+        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <polyline points="9 18 15 12 9 6"></polyline>
+        </svg>
+      </button>
+    </div>
+  );
+};
+
 /**
  * Chat component
  * Redesigned to match Perplexity's clean design
  */
 const Chat: React.FC = () => {
-  const { messages, isLoading, sendMessage } = useChat();
+  const { 
+    messages, 
+    isLoading, 
+    error, 
+    sendMessage, 
+    editMessage, 
+    regenerateMessage, 
+    retryMessage, 
+    switchBranch, 
+    activeConversation 
+  } = useChat();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [isThinkingCollapsed, setIsThinkingCollapsed] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  // Assistant message whose variants are open in the comparison view
+  const [comparingMessageId, setComparingMessageId] = useState<string | null>(null);
+  const allMessages = activeConversation?.messages || [];
+  const comparingMessage = allMessages.find(msg => msg.id === comparingMessageId);
+  
+  // Get the prompt an assistant message answers
+  const getPromptMessage = (message: Message) => allMessages.find(msg => msg.id === message.parentId);
+  
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditValue(message.content);
+  };
+  
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditValue('');
+  };
+  
+  // Submit the edited text as a new branch from the same point in the conversation
+  const submitEdit = () => {
+    if (!editingMessageId || !editValue.trim()) return;
+    
+    editMessage(editingMessageId, editValue.trim());
+    cancelEditing();
+  };
   
   // Update scrolling behavior
   useEffect(() => {
@@ -112,7 +200,10 @@ const Chat: React.FC = () => {
   
   // Get thinking process from the last assistant message
   const getThinkingProcess = (): ThinkingProcess | undefined => {
-    if (isLoading) return undefined;
+    // While generating, show the live progress reported for the pending message
+    if (isLoading) {
+      return messages.find(m => m.status === 'streaming')?.metadata?.thinking;
+    }
     
     // Check if the most recent assistant message has a thinking process
     const lastAssistantMessage = [...messages]
@@ -127,6 +218,15 @@ const Chat: React.FC = () => {
     return undefined;
   };
   
+  // Get the reasoning of the last assistant message, for thinking models
+  const getModelThoughts = (): string | undefined => {
+    if (isLoading) {
+      return messages.find(m => m.status === 'streaming')?.thoughts;
+    }
+    
+    return [...messages].reverse().find(m => m.role === 'assistant')?.thoughts;
+  };
+  
   // Get the last user message
   const getLastUserMessage = () => {
     for (let i = messages.length - 1; i >= 0; i--) {
@@ -141,6 +241,11 @@ const Chat: React.FC = () => {
   const isCurrentDeepSearch = (): boolean => {
     // If we're loading and the last user message was a search query, it's DeepSearch
     if (isLoading) {
+      const pendingMessage = messages.find(m => m.status === 'streaming');
+      if (pendingMessage) {
+        return !!pendingMessage.isDeepSearch;
+      }
+      
       const lastUserMsg = getLastUserMessage();
       if (lastUserMsg) {
         return isDeepSearchMessage(lastUserMsg.content);
@@ -161,15 +266,31 @@ const Chat: React.FC = () => {
     return lastUserMessage ? isDeepSearchMessage(lastUserMessage.content) : false;
   };
   
+  // Whether the assistant message being generated has started streaming text
+  const hasStreamedContent = messages.some(m => m.status === 'streaming' && m.content.length > 0);
+  
   // Render the appropriate welcome message or conversation
   const renderContent = () => {
     if (messages.length === 0) {
-      return <WelcomeMessage onSendMessage={sendMessage} />;
+      return (
+        <>
+          {/* e.g. a missing API key, reported before anything has been sent */}
+          {error && (
+            <div className="max-w-3xl mx-auto px-4 pt-6">
+              <ErrorNotice error={error.toInfo()} />
+            </div>
+          )}
+          <WelcomeMessage onSendMessage={sendMessage} />
+        </>
+      );
     }
     
     return (
       <div className="message-container pb-32">
-        {messages.map((message) => (
+        {messages
+          // Pending assistant messages are represented by the loading indicator until text arrives
+          .filter(message => !(message.status === 'streaming' && !message.content))
+          .map((message) => (
           <div 
             key={message.id}
             className={`message ${message.role === 'user' ? 'message--user' : 'message--assistant'}`}
@@ -224,18 +345,157 @@ const Chat: React.FC = () => {
                         minute: '2-digit'
                       })}
                     </div>
+                    
+                    {message.usage && message.status !== 'streaming' && (
+                      <div
+                        className="text-xs text-gray-500"
+                        title={`${message.usage.requests} ${message.usage.requests === 1 ? 'request' : 'requests'} · ${message.usage.promptTokens} prompt + ${message.usage.responseTokens} response tokens · ${(message.usage.latencyMs / 1000).toFixed(1)}s`}
+                      >
+                        {formatTokenCount(message.usage.totalTokens)} tokens · {formatCost(message.usage.estimatedCost)}
+                      </div>
+                    )}
+                    
+                    <div className="ml-auto flex items-center gap-2">
+                      <BranchNavigator message={message} allMessages={allMessages} disabled={isLoading} />
+                      
+                      {message.role === 'assistant' && getSiblings(allMessages, message).length > 1 && (
+                        <button
+                          onClick={() => setComparingMessageId(message.id)}
+                          className="p-1 rounded text-gray-500 hover:bg-[#333] hover:text-white"
+                          aria-label="Compare responses"
+                          title="Compare responses side by side"
+                        >
+                          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <rect x="3" y="3" width="7" height="18" rx="1"></rect>
+                            <rect x="14" y="3" width="7" height="18" rx="1"></rect>
+                          </svg>
+                        </button>
+                      )}
+                      
+                      {message.role === 'assistant' && message.status !== 'streaming' && getPromptMessage(message) && (
+                        <RegenerateMenu
+                          onRegenerate={(modelId) => regenerateMessage(message.id, modelId)}
+                          currentModelId={message.modelId}
+                          isDeepSearch={message.isDeepSearch}
+                          hasAttachments={!!getPromptMessage(message)?.attachments?.length}
+                          disabled={isLoading}
+                        />
+                      )}
+                      
+                      {message.role === 'user' && editingMessageId !== message.id && (
+                        <button
+                          onClick={() => startEditing(message)}
+                          disabled={isLoading}
+                          className="p-1 rounded text-gray-500 hover:bg-[#333] hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                          aria-label="Edit message"
+                          title="Edit message"
+                        >
+                          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M12 20h9"></path>
+                            <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
+                          </svg>
+                        </button>
+                      )}
+                    </div>
                   </div>
                   
                   {/* Message Body */}
                   <div className="message-body">
                     {message.role === 'user' ? (
-                      <div className="text-gray-200">{cleanMessageText(message.content)}</div>
+                      <>
+                        {message.attachments && message.attachments.length > 0 && (
+                          <div className={message.content ? 'mb-2' : ''}>
+                            <AttachmentPreview attachments={message.attachments} size="large" />
+                          </div>
+                        )}
+                        {editingMessageId === message.id ? (
+                          <div>
+                            <textarea
+                              value={editValue}
+                              onChange={(e) => setEditValue(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                  e.preventDefault();
+                                  submitEdit();
+                                } else if (e.key === 'Escape') {
+                                  cancelEditing();
+                                }
+                              }}
+                              className="w-full bg-[#1d1e20] text-gray-200 border border-[#333] rounded-lg px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500 resize-y"
+                              rows={3}
+                              autoFocus
+                            />
+                            <div className="flex justify-end gap-2 mt-2">
+                              <button
+                                onClick={cancelEditing}
+                                className="px-3 py-1.5 rounded-md text-sm bg-[#333] text-gray-300 hover:bg-[#444]"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={submitEdit}
+                                disabled={!editValue.trim() || isLoading}
+                                className="px-3 py-1.5 rounded-md text-sm bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-700 disabled:text-gray-400"
+                              >
+                                Save & Submit
+                              </button>
+                            </div>
+                          </div>
+                        ) : message.content && (
+                          <div className="text-gray-200">{cleanMessageText(message.content)}</div>
+                        )}
+                      </>
                     ) : (
                       <MessageRenderer 
                         content={message.content} 
                         citations={message.metadata?.thinking?.citations || []}
+                        isStreaming={message.status === 'streaming'}
                       />
                     )}
+                    
+                    {message.status === 'stopped' && (
+                      <div className="mt-2 inline-flex items-center text-xs text-gray-500">
+                        <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                          <rect x="6" y="6" width="12" height="12" rx="1.5"></rect>
+                        </svg>
+                        {message.content ? 'Response stopped' : 'Stopped before a response was generated'}
+                      </div>
+                    )}
+                    
+                    {message.status === 'error' && (
+                      <ErrorNotice 
+                        error={message.metadata?.error} 
+                        onRetry={() => retryMessage(message.id)} 
+                        retryDisabled={isLoading}
+                        hasPartialContent={!!message.content} 
+                      />
+                    )}
+                    
+                    {message.status === 'blocked' && (
+                      <BlockedResponseNotice 
+                        blockInfo={message.metadata?.blocked} 
+                        hasPartialContent={!!message.content} 
+                      />
+                    )}
+                    
+                    {/* Follow-up suggestions for the latest response */}
+                    {message.role === 'assistant' && 
+                      message.id === messages[messages.length - 1]?.id && 
+                      !isLoading && 
+                      message.metadata?.suggestions && 
+                      message.metadata.suggestions.length > 0 && (
+                      <div className="mt-4 flex flex-wrap gap-2">
+                        {message.metadata.suggestions.map((suggestion, index) => (
+                          <button
+                            key={index}
+                            onClick={() => sendMessage(message.isDeepSearch ? `/search ${suggestion}` : suggestion)}
+                            className="px-3 py-1.5 rounded-full text-sm text-left bg-[#252525] text-gray-300 border border-[#333] hover:bg-[#333] hover:text-white transition-colors"
+                          >
+                            {suggestion}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -244,7 +504,7 @@ const Chat: React.FC = () => {
         ))}
         
         {/* Thinking Process */}
-        {isLoading || getThinkingProcess() ? (
+        {(isLoading && !hasStreamedContent) || getThinkingProcess() || getModelThoughts() ? (
           <div className="max-w-3xl mx-auto px-4 mb-4">
             <ThinkingIndicator
               thinking={isLoading}
@@ -252,12 +512,13 @@ const Chat: React.FC = () => {
               isCollapsed={isThinkingCollapsed}
               onToggleCollapse={toggleThinkingCollapse}
               thinkingProcess={getThinkingProcess()}
+              thoughts={getModelThoughts()}
             />
           </div>
         ) : null}
         
         {/* Loading Indicator */}
-        {isLoading && (
+        {isLoading && !hasStreamedContent && (
           <div className="max-w-3xl mx-auto px-4 mb-4">
             <div className="flex items-center justify-center py-6">
               <div className="perplexity-progress w-16">
@@ -290,6 +551,18 @@ const Chat: React.FC = () => {
       <div className="flex-1 overflow-y-auto">
         {renderContent()}
       </div>
+      
+      {/* Side-by-side comparison of regenerated responses */}
+      <AnimatePresence>
+        {comparingMessage && (
+          <ResponseComparison
+            variants={getSiblings(allMessages, comparingMessage)}
+            activeVariantId={messages.find(msg => msg.parentId === comparingMessage.parentId)?.id || comparingMessage.id}
+            onSelect={(messageId) => switchBranch(messageId)}
+            onClose={() => setComparingMessageId(null)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
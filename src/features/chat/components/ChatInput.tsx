@@ -2,21 +2,37 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useChat } from '../context/ChatContext';
 import ModelSelector from '../../../shared/components/ModelSelector';
 import { SearchIcon } from '../../../shared/components/icons/SearchIcon';
+import AttachmentPreview from './AttachmentPreview';
+import TokenBudgetIndicator from './TokenBudgetIndicator';
+import { Attachment, TokenCount } from '../../gemini/types/gemini.types';
+import { supportsAttachments } from '../../../shared/utils/geminiModels';
+import { useGeminiService } from '../../gemini/context/GeminiServiceContext';
+import { MAX_ATTACHMENTS, ATTACHMENT_ACCEPT, readFileAsAttachment } from '../../../shared/utils/attachments';
 
 interface ChatInputProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments?: Attachment[]) => void;
   disabled?: boolean;
+  isGenerating?: boolean;
+  onStop?: () => void;
 }
 
 /**
  * ChatInput component for sending messages
  * Redesigned to match Perplexity's clean interface
  */
-const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, disabled = false }) => {
+const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, disabled = false, isGenerating = false, onStop }) => {
   const [message, setMessage] = useState('');
   const [isWebSearchEnabled, setIsWebSearchEnabled] = useState(false);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const { selectedModel, setSelectedModel } = useChat();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { selectedModel, setSelectedModel, messages, countDraftTokens } = useChat();
+  const { models } = useGeminiService();
+  const canAttach = supportsAttachments(selectedModel);
+  const [tokenCount, setTokenCount] = useState<TokenCount | null>(null);
+  const [isCountingTokens, setIsCountingTokens] = useState(false);
   
   // Auto-resize textarea
   useEffect(() => {
@@ -33,24 +49,134 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, disabled = false }
     }
   }, []);
 
+  // Drop pending attachments when switching to a model that cannot read them
+  useEffect(() => {
+    if (!canAttach) {
+      setAttachments([]);
+    }
+  }, [canAttach]);
+
+  // Count the tokens of the draft and history once typing pauses
+  // The history changes with every chunk while a response streams, so it is counted once it has finished
+  useEffect(() => {
+    // A count cancelled by the previous run never clears the flag itself
+    if (isGenerating) {
+      setIsCountingTokens(false);
+      return;
+    }
+    if (!message.trim() && attachments.length === 0 && messages.length === 0) {
+      setIsCountingTokens(false);
+      setTokenCount(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsCountingTokens(true);
+
+    const timer = setTimeout(() => {
+      countDraftTokens(message, attachments, controller.signal)
+        .then(count => setTokenCount(count))
+        .catch(err => {
+          if (!controller.signal.aborted) {
+            console.warn('Could not count tokens:', err);
+          }
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            setIsCountingTokens(false);
+          }
+        });
+    }, 500);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [message, attachments, messages, selectedModel, isGenerating]);
+
+  const addFiles = async (files: File[]) => {
+    if (!canAttach || files.length === 0) return;
+
+    setAttachmentError(null);
+
+    const availableSlots = MAX_ATTACHMENTS - attachments.length;
+    if (files.length > availableSlots) {
+      setAttachmentError(`You can attach up to ${MAX_ATTACHMENTS} files per message`);
+    }
+
+    const results = await Promise.allSettled(files.slice(0, Math.max(availableSlots, 0)).map(readFileAsAttachment));
+    const added: Attachment[] = [];
+
+    results.forEach(result => {
+      if (result.status === 'fulfilled') {
+        added.push(result.value);
+      } else {
+        setAttachmentError(result.reason instanceof Error ? result.reason.message : 'Could not attach file');
+      }
+    });
+
+    setAttachments(prev => [...prev, ...added]);
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    // Reset the input so the same file can be picked again
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0 && canAttach) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canAttach || disabled) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = () => {
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!canAttach || disabled) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const canSend = (message.trim().length > 0 || attachments.length > 0) && !disabled;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     const trimmedMessage = message.trim();
-    if (!trimmedMessage || disabled) return;
+    if (!canSend) return;
+
+    const messageAttachments = attachments.length > 0 ? attachments : undefined;
     
     // Handle web search queries
     if (trimmedMessage.startsWith('/search ')) {
       const searchQuery = trimmedMessage.replace('/search ', '');
-      onSendMessage(`/search ${searchQuery}`);
-    } else if (isWebSearchEnabled) {
-      onSendMessage(`/search ${trimmedMessage}`);
+      onSendMessage(`/search ${searchQuery}`, messageAttachments);
+    } else if (isWebSearchEnabled && trimmedMessage) {
+      onSendMessage(`/search ${trimmedMessage}`, messageAttachments);
     } else {
-      onSendMessage(trimmedMessage);
+      onSendMessage(trimmedMessage, messageAttachments);
     }
     
     // Clear input
     setMessage('');
+    setAttachments([]);
+    setAttachmentError(null);
     
     // Reset textarea height
     if (textareaRef.current) {
@@ -73,12 +199,24 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, disabled = false }
     <div className="chat-input-container">
       <div className="max-w-3xl mx-auto">
         <form onSubmit={handleSubmit} className="relative">
-          <div className={`chat-input-box ${disabled ? 'opacity-50' : ''}`}>
+          <div
+            className={`chat-input-box ${disabled ? 'opacity-50' : ''} ${isDragging ? 'ring-2 ring-blue-500' : ''}`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
+            {attachments.length > 0 && (
+              <div className="px-3 pt-3">
+                <AttachmentPreview attachments={attachments} onRemove={removeAttachment} />
+              </div>
+            )}
+
             <textarea
               ref={textareaRef}
               value={message}
               onChange={(e) => setMessage(e.target.value)}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               placeholder={isWebSearchEnabled ? "Search the web..." : "Send a message..."}
               className="chat-textarea"
               disabled={disabled}
@@ -86,6 +224,26 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, disabled = false }
             />
             
             <div className="chat-input-actions">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ATTACHMENT_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="chat-input-action-button text-gray-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                title={canAttach ? "Attach images or files" : "The selected model does not support attachments"}
+                disabled={disabled || !canAttach || attachments.length >= MAX_ATTACHMENTS}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"></path>
+                </svg>
+              </button>
+
               <button
                 type="button"
                 onClick={toggleWebSearch}
@@ -104,27 +262,52 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, disabled = false }
                 disabled={disabled}
                 className="mr-2"
                 webSearchEnabled={isWebSearchEnabled}
+                models={models}
               />
               
-              <button
-                type="submit"
-                disabled={!message.trim() || disabled}
-                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
-                  !message.trim() || disabled
-                    ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
-                    : 'bg-blue-600 hover:bg-blue-700 text-white'
-                }`}
-              >
-                <span className="flex items-center">
-                  <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14 5l7 7m0 0l-7 7m7-7H3"></path>
-                  </svg>
-                  Send
-                </span>
-              </button>
+              {isGenerating && onStop ? (
+                <button
+                  type="button"
+                  onClick={onStop}
+                  className="px-3 py-1.5 rounded-md text-sm font-medium transition-colors bg-red-600 hover:bg-red-700 text-white"
+                  title="Stop generating"
+                >
+                  <span className="flex items-center">
+                    <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                      <rect x="6" y="6" width="12" height="12" rx="1.5"></rect>
+                    </svg>
+                    Stop
+                  </span>
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!canSend}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    !canSend
+                      ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                      : 'bg-blue-600 hover:bg-blue-700 text-white'
+                  }`}
+                >
+                  <span className="flex items-center">
+                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14 5l7 7m0 0l-7 7m7-7H3"></path>
+                    </svg>
+                    Send
+                  </span>
+                </button>
+              )}
             </div>
           </div>
           
+          <TokenBudgetIndicator count={tokenCount} isCounting={isCountingTokens} />
+
+          {attachmentError && (
+            <div className="mt-2 text-xs text-center text-red-400">
+              {attachmentError}
+            </div>
+          )}
+
           {isWebSearchEnabled && (
             <div className="mt-2 text-xs text-center text-blue-400">
               <span className="flex items-center justify-center">
@@ -0,0 +1,420 @@
+import React, { forwardRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useChat } from '../context/ChatContext';
+import { Persona } from '../types/chat.types';
+import { HarmBlockThreshold } from '@google/generative-ai';
+import { GenerationSettings, SafetyThresholds } from '../../gemini/types/gemini.types';
+import { findModelById } from '../../../shared/utils/geminiModels';
+import { SAFETY_CATEGORIES, SAFETY_THRESHOLDS, DEFAULT_SAFETY_THRESHOLD } from '../../../shared/utils/safety';
+
+interface ConversationSettingsProps {
+  onClose: () => void;
+}
+
+type NumericSetting = 'temperature' | 'topP' | 'topK' | 'maxOutputTokens' | 'candidateCount' | 'thinkingBudget';
+
+interface NumericSettingField {
+  key: NumericSetting;
+  label: string;
+  description: string;
+  min: number;
+  max?: number;
+  step: number;
+  // Only shown for models that support thinking
+  thinkingOnly?: boolean;
+}
+
+const MAX_STOP_SEQUENCES = 5;
+
+const NUMERIC_SETTINGS: NumericSettingField[] = [
+  { key: 'temperature', label: 'Temperature', description: 'Higher values make responses more varied (0-2)', min: 0, max: 2, step: 0.1 },
+  { key: 'topP', label: 'Top P', description: 'Only sample from the most likely tokens up to this cumulative probability (0-1)', min: 0, max: 1, step: 0.05 },
+  { key: 'topK', label: 'Top K', description: 'Only sample from this many of the most likely tokens', min: 1, step: 1 },
+  { key: 'maxOutputTokens', label: 'Max output tokens', description: 'Longest response the model may write', min: 1, step: 1 },
+  { key: 'candidateCount', label: 'Candidates', description: 'Responses generated per prompt, shown as variants (1-8)', min: 1, max: 8, step: 1 },
+  { key: 'thinkingBudget', label: 'Thinking budget', description: 'Tokens the model may spend reasoning before it answers; 0 turns thinking off where the model allows it, -1 lets the model decide', min: -1, max: 32768, step: 1, thinkingOnly: true }
+];
+
+const toDraft = (settings: GenerationSettings = {}) => ({
+  ...Object.fromEntries(NUMERIC_SETTINGS.map(({ key }) => [key, settings[key]?.toString() ?? ''])) as Record<NumericSetting, string>,
+  stopSequences: (settings.stopSequences || []).join('\n')
+});
+
+/**
+ * Editor for the sampling and output settings of the active conversation
+ * Empty fields use the model's defaults
+ */
+const GenerationSettingsSection: React.FC = () => {
+  const { activeConversation, setGenerationSettings } = useChat();
+  const [draft, setDraft] = useState(() => toDraft(activeConversation?.generationSettings));
+
+  const model = activeConversation ? findModelById(activeConversation.modelId) : undefined;
+  const stopSequences = draft.stopSequences.split('\n').filter(sequence => sequence.length > 0);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(toDraft(activeConversation?.generationSettings));
+
+  const getMax = (field: NumericSettingField) => {
+    return field.key === 'maxOutputTokens' ? model?.maxOutputTokens : field.max;
+  };
+
+  const isInvalid = (field: NumericSettingField) => {
+    const value = draft[field.key];
+    if (!value.trim()) return false;
+
+    const number = Number(value);
+    const max = getMax(field);
+    return Number.isNaN(number) || number < field.min || (max !== undefined && number > max)
+      || (field.step === 1 && !Number.isInteger(number));
+  };
+
+  const hasErrors = NUMERIC_SETTINGS.some(isInvalid) || stopSequences.length > MAX_STOP_SEQUENCES;
+
+  const handleApply = () => {
+    if (hasErrors) return;
+
+    const settings: GenerationSettings = {};
+    NUMERIC_SETTINGS.forEach(({ key }) => {
+      if (draft[key].trim()) {
+        settings[key] = Number(draft[key]);
+      }
+    });
+    if (stopSequences.length > 0) {
+      settings.stopSequences = stopSequences;
+    }
+
+    setGenerationSettings(settings);
+  };
+
+  const handleReset = () => {
+    setDraft(toDraft());
+    setGenerationSettings({});
+  };
+
+  return (
+    <section className="p-4 border-b border-[#333]">
+      <h3 className="text-sm font-medium text-white mb-1">Generation</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Sampling and output settings for replies in this conversation. Leave a field empty to use the model's default.
+      </p>
+
+      <div className="space-y-3">
+        {NUMERIC_SETTINGS.filter(field => !field.thinkingOnly || model?.supportsThinking).map(field => {
+          const max = getMax(field);
+
+          return (
+            <label key={field.key} className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="text-sm text-gray-300">{field.label}</div>
+                <div className={`text-xs ${isInvalid(field) ? 'text-red-400' : 'text-gray-500'}`}>
+                  {field.description}{field.key === 'maxOutputTokens' && max ? ` (up to ${max.toLocaleString()})` : ''}
+                </div>
+              </div>
+              <input
+                type="number"
+                value={draft[field.key]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                min={field.min}
+                max={max}
+                step={field.step}
+                placeholder="Default"
+                className={`w-28 shrink-0 bg-[#252525] text-white text-sm rounded-lg px-3 py-1.5 focus:outline-none focus:ring-1 ${
+                  isInvalid(field) ? 'ring-1 ring-red-500 focus:ring-red-500' : 'focus:ring-blue-500'
+                }`}
+              />
+            </label>
+          );
+        })}
+
+        <div>
+          <div className="text-sm text-gray-300">Stop sequences</div>
+          <div className={`text-xs mb-1.5 ${stopSequences.length > MAX_STOP_SEQUENCES ? 'text-red-400' : 'text-gray-500'}`}>
+            One per line, up to {MAX_STOP_SEQUENCES}. The response ends when the model writes one of them.
+          </div>
+          <textarea
+            value={draft.stopSequences}
+            onChange={(e) => setDraft(prev => ({ ...prev, stopSequences: e.target.value }))}
+            rows={2}
+            className="w-full bg-[#252525] text-white text-sm font-mono rounded-lg px-3 py-2 resize-y focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-3">
+        <button
+          onClick={handleReset}
+          disabled={!activeConversation?.generationSettings && !isDirty}
+          className="px-3 py-1.5 rounded-lg text-sm bg-[#252525] text-gray-300 hover:bg-[#333] disabled:opacity-50"
+        >
+          Reset to defaults
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={handleApply}
+          disabled={!isDirty || hasErrors}
+          className="px-3 py-1.5 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600"
+        >
+          Apply
+        </button>
+      </div>
+    </section>
+  );
+};
+
+/**
+ * Editor for the system instruction of the active conversation, with persona presets
+ */
+const SystemInstructionSection: React.FC = () => {
+  const { activeConversation, setSystemInstruction, personas, savePersona, deletePersona } = useChat();
+
+  const [instruction, setInstruction] = useState(activeConversation?.systemInstruction || '');
+  const [personaId, setPersonaId] = useState<string | undefined>(activeConversation?.personaId);
+  const [presetName, setPresetName] = useState('');
+  const [isSavingPreset, setIsSavingPreset] = useState(false);
+
+  const selectedPersona = personas.find(persona => persona.id === personaId);
+  const isDirty = instruction.trim() !== (activeConversation?.systemInstruction || '')
+    || personaId !== activeConversation?.personaId;
+
+  const applyPersona = (persona: Persona | null) => {
+    setInstruction(persona?.instruction || '');
+    setPersonaId(persona?.id);
+    setSystemInstruction(persona?.instruction || '', persona?.id);
+  };
+
+  const handleInstructionChange = (value: string) => {
+    setInstruction(value);
+    // Editing a preset's text turns it into a one-off instruction
+    if (selectedPersona && value !== selectedPersona.instruction) {
+      setPersonaId(undefined);
+    }
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim() || !instruction.trim()) return;
+
+    const saved = savePersona({
+      name: presetName.trim(),
+      description: instruction.trim().split('\n')[0].substring(0, 80),
+      instruction: instruction.trim()
+    });
+
+    setPersonaId(saved.id);
+    setSystemInstruction(saved.instruction, saved.id);
+    setPresetName('');
+    setIsSavingPreset(false);
+  };
+
+  const handleDeletePreset = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    deletePersona(id);
+    if (personaId === id) {
+      setPersonaId(undefined);
+    }
+  };
+
+  return (
+    <section className="p-4 border-b border-[#333]">
+      <h3 className="text-sm font-medium text-white mb-1">System instructions</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Sent with every request in this conversation to set the assistant's role, tone and rules.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        <button
+          onClick={() => applyPersona(null)}
+          className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+            !personaId && !instruction.trim()
+              ? 'bg-blue-600 border-blue-600 text-white'
+              : 'bg-[#252525] border-[#333] text-gray-300 hover:bg-[#333]'
+          }`}
+        >
+          None
+        </button>
+        {personas.map(persona => (
+          <div key={persona.id} className="group relative">
+            <button
+              onClick={() => applyPersona(persona)}
+              title={persona.description}
+              className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                persona.id === personaId
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-[#252525] border-[#333] text-gray-300 hover:bg-[#333]'
+              } ${persona.builtIn ? '' : 'pr-6'}`}
+            >
+              {persona.name}
+            </button>
+            {!persona.builtIn && (
+              <button
+                onClick={(e) => handleDeletePreset(persona.id, e)}
+                className="absolute right-1.5 top-1/2 -translate-y-1/2 text-gray-400 hover:text-red-400"
+                aria-label={`Delete ${persona.name} preset`}
+                title="Delete preset"
+              >
+                <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
+                  <line x1="18" y1="6" x2="6" y2="18"></line>
+                  <line x1="6" y1="6" x2="18" y2="18"></line>
+                </svg>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <textarea
+        value={instruction}
+        onChange={(e) => handleInstructionChange(e.target.value)}
+        placeholder="e.g. You are a helpful assistant that answers in British English."
+        rows={6}
+        className="w-full bg-[#252525] text-white text-sm rounded-lg px-3 py-2 resize-y focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+
+      <div className="flex items-center gap-2 mt-2">
+        {isSavingPreset ? (
+          <>
+            <input
+              type="text"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSavePreset();
+                if (e.key === 'Escape') setIsSavingPreset(false);
+              }}
+              placeholder="Preset name"
+              autoFocus
+              className="flex-1 bg-[#252525] text-white text-sm rounded-lg px-3 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleSavePreset}
+              disabled={!presetName.trim()}
+              className="px-3 py-1.5 rounded-lg text-sm bg-[#333] text-gray-300 hover:bg-[#444] disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setIsSavingPreset(false)}
+              className="px-3 py-1.5 rounded-lg text-sm text-gray-400 hover:text-white"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => setIsSavingPreset(true)}
+              disabled={!instruction.trim()}
+              className="px-3 py-1.5 rounded-lg text-sm bg-[#252525] text-gray-300 hover:bg-[#333] disabled:opacity-50"
+            >
+              Save as preset
+            </button>
+            <div className="flex-1" />
+            <button
+              onClick={() => setSystemInstruction(instruction, personaId)}
+              disabled={!isDirty}
+              className="px-3 py-1.5 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600"
+            >
+              Apply
+            </button>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+/**
+ * Block threshold per harm category for the active conversation
+ * Changes apply immediately
+ */
+const SafetySettingsSection: React.FC = () => {
+  const { activeConversation, setSafetyThresholds } = useChat();
+  const thresholds = activeConversation?.safetyThresholds || {};
+
+  const handleChange = (category: keyof SafetyThresholds, threshold: HarmBlockThreshold) => {
+    const next: SafetyThresholds = { ...thresholds, [category]: threshold };
+    // Only store categories that differ from the default
+    if (threshold === DEFAULT_SAFETY_THRESHOLD) {
+      delete next[category];
+    }
+    setSafetyThresholds(next);
+  };
+
+  return (
+    <section className="p-4">
+      <h3 className="text-sm font-medium text-white mb-1">Safety</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        How likely a prompt or response must be to contain harmful content before it is blocked.
+      </p>
+
+      <div className="space-y-2">
+        {SAFETY_CATEGORIES.map(({ category, label }) => (
+          <label key={category} className="flex items-center justify-between gap-4">
+            <span className="text-sm text-gray-300">{label}</span>
+            <select
+              value={thresholds[category] || DEFAULT_SAFETY_THRESHOLD}
+              onChange={(e) => handleChange(category, e.target.value as HarmBlockThreshold)}
+              className="w-40 bg-[#252525] text-white text-sm rounded-lg px-3 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {SAFETY_THRESHOLDS.map(({ threshold, label: thresholdLabel }) => (
+                <option key={threshold} value={threshold}>
+                  {thresholdLabel}{threshold === DEFAULT_SAFETY_THRESHOLD ? ' (default)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex mt-3">
+        <button
+          onClick={() => setSafetyThresholds({})}
+          disabled={Object.keys(thresholds).length === 0}
+          className="px-3 py-1.5 rounded-lg text-sm bg-[#252525] text-gray-300 hover:bg-[#333] disabled:opacity-50"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </section>
+  );
+};
+
+/**
+ * ConversationSettings component for configuring the active conversation
+ */
+const ConversationSettings = forwardRef<HTMLDivElement, ConversationSettingsProps>(({ onClose }, ref) => {
+  const { activeConversation } = useChat();
+
+  return (
+    <motion.div
+      ref={ref}
+      initial={{ scale: 0.95, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      exit={{ scale: 0.95, opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="bg-[#1d1e20] rounded-xl shadow-xl border border-[#333] w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col"
+    >
+      <div className="p-4 border-b border-[#333] flex justify-between items-center">
+        <h2 className="text-lg font-medium text-white">Conversation Settings</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-full hover:bg-[#333] text-gray-400 hover:text-white transition-colors"
+          aria-label="Close"
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <line x1="18" y1="6" x2="6" y2="18"></line>
+            <line x1="6" y1="6" x2="18" y2="18"></line>
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {/* Keyed by conversation so drafts reset when switching conversations */}
+        <SystemInstructionSection key={activeConversation?.id} />
+        <GenerationSettingsSection key={`generation-${activeConversation?.id}`} />
+        <SafetySettingsSection />
+      </div>
+    </motion.div>
+  );
+});
+
+ConversationSettings.displayName = 'ConversationSettings';
+
+export default ConversationSettings;
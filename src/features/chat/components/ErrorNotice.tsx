@@ -0,0 +1,72 @@
+import React from 'react';
+import { GeminiErrorCode, GeminiErrorInfo } from '../../gemini/types/gemini.types';
+
+interface ErrorNoticeProps {
+  error?: GeminiErrorInfo;
+  onRetry?: () => void;
+  retryDisabled?: boolean;
+  hasPartialContent?: boolean;
+}
+
+const ERROR_TITLES: Record<GeminiErrorCode, string> = {
+  'quota': 'Rate limit or quota exceeded',
+  'invalid-key': 'API key rejected',
+  'model-not-found': 'Model not available',
+  'safety': 'Blocked by the safety filters',
+  'network': 'Connection problem',
+  'timeout': 'Request timed out',
+  'server': 'Gemini API unavailable',
+  'invalid-response': 'Unexpected response',
+  'unknown': 'Something went wrong'
+};
+
+// What the user can do about each kind of error
+const ERROR_HINTS: Partial<Record<GeminiErrorCode, string>> = {
+  'quota': 'Wait a minute before retrying, or check your usage limits in Google AI Studio.',
+  'invalid-key': 'Check the API key the app is configured with, then retry.',
+  'model-not-found': 'Regenerate the response with another model.',
+  'network': 'Check your internet connection, then retry.',
+  'timeout': 'Retry, or regenerate the response with a faster model.',
+  'server': 'This is usually temporary. Retry in a moment.'
+};
+
+/**
+ * ErrorNotice component for explaining why a response could not be generated, with a retry action
+ */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, retryDisabled = false, hasPartialContent = false }) => {
+  const code = error?.code || 'unknown';
+
+  return (
+    <div className={`${hasPartialContent ? 'mt-3' : ''} rounded-lg border border-red-900/60 bg-red-950/20 p-3 text-sm`}>
+      <div className="flex items-start gap-2">
+        <svg className="w-4 h-4 mt-0.5 shrink-0 text-red-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <circle cx="12" cy="12" r="10"></circle>
+          <line x1="12" y1="8" x2="12" y2="12"></line>
+          <line x1="12" y1="16" x2="12.01" y2="16"></line>
+        </svg>
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-red-300">
+            {ERROR_TITLES[code]}{hasPartialContent && ' — the response is incomplete'}
+          </div>
+          {error?.message && <div className="text-xs text-gray-400 mt-0.5 break-words">{error.message}</div>}
+          {ERROR_HINTS[code] && <div className="text-xs text-gray-500 mt-1">{ERROR_HINTS[code]}</div>}
+        </div>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            disabled={retryDisabled}
+            className="shrink-0 inline-flex items-center gap-1 px-3 py-1 rounded-md text-xs bg-[#333] text-gray-200 hover:bg-blue-600 hover:text-white disabled:opacity-50 disabled:hover:bg-[#333] disabled:cursor-not-allowed transition-colors"
+          >
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="23 4 23 10 17 10"></polyline>
+              <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"></path>
+            </svg>
+            Retry
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorNotice;
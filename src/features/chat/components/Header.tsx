@@ -2,6 +2,9 @@ import React from 'react';
 
 interface HeaderProps {
   toggleHistory: () => void;
+  toggleSettings?: () => void;
+  toggleShare?: () => void;
+  toggleKeys?: () => void;
   onClearChat?: () => void;
 }
 
@@ -10,6 +13,9 @@ interface HeaderProps {
  */
 const Header: React.FC<HeaderProps> = ({
   toggleHistory,
+  toggleSettings,
+  toggleShare,
+  toggleKeys,
   onClearChat
 }) => {
   const handleNewChat = () => {
@@ -44,6 +50,47 @@ const Header: React.FC<HeaderProps> = ({
             New chat
           </button>
           
+          {toggleShare && (
+            <button
+              onClick={toggleShare}
+              className="p-2 rounded-full bg-[#1d1e20] border border-[#333] text-white hover:bg-[#252525] transition-colors"
+              aria-label="Share conversation"
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <circle cx="18" cy="5" r="3"></circle>
+                <circle cx="6" cy="12" r="3"></circle>
+                <circle cx="18" cy="19" r="3"></circle>
+                <line x1="8.59" y1="13.51" x2="15.42" y2="17.49"></line>
+                <line x1="15.41" y1="6.51" x2="8.59" y2="10.49"></line>
+              </svg>
+            </button>
+          )}
+          
+          {toggleKeys && (
+            <button
+              onClick={toggleKeys}
+              className="p-2 rounded-full bg-[#1d1e20] border border-[#333] text-white hover:bg-[#252525] transition-colors"
+              aria-label="API keys"
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M21 2l-2 2m-7.61 7.61a5.5 5.5 0 1 1-7.778 7.778 5.5 5.5 0 0 1 7.777-7.777zm0 0L15.5 7.5m0 0l3 3L22 7l-3-3m-3.5 3.5L19 4"></path>
+              </svg>
+            </button>
+          )}
+          
+          {toggleSettings && (
+            <button
+              onClick={toggleSettings}
+              className="p-2 rounded-full bg-[#1d1e20] border border-[#333] text-white hover:bg-[#252525] transition-colors"
+              aria-label="Conversation settings"
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <circle cx="12" cy="12" r="3"></circle>
+                <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"></path>
+              </svg>
+            </button>
+          )}
+          
           <button
             onClick={toggleHistory}
             className="p-2 rounded-full bg-[#1d1e20] border border-[#333] text-white hover:bg-[#252525] transition-colors"
@@ -1,13 +1,90 @@
-import React, { forwardRef, useState } from 'react';
+import React, { forwardRef, useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useChat } from '../context/ChatContext';
+import { exportConversations, ExportFormat } from '../utils/conversationExport';
+import { parseConversationArchive } from '../utils/conversationImport';
+import {
+  ConversationSearchResult,
+  HighlightRange,
+  SemanticMatch,
+  groupSemanticMatches,
+  searchConversations
+} from '../utils/historySearch';
+import { ConversationGroup, GroupBy, groupConversations } from '../utils/conversationGroups';
+import { Conversation } from '../types/chat.types';
+import { toGeminiError } from '../../gemini/services/errors';
 
 interface HistoryPopupProps {
   onClose: () => void;
 }
 
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'markdown', label: 'MD' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'HTML' }
+];
+
+/**
+ * Row of buttons for picking an export format
+ */
+const ExportFormatButtons: React.FC<{ onSelect: (format: ExportFormat) => void }> = ({ onSelect }) => (
+  <div className="flex items-center gap-1">
+    {EXPORT_FORMATS.map(({ format, label }) => (
+      <button
+        key={format}
+        onClick={(e) => {
+          e.stopPropagation();
+          onSelect(format);
+        }}
+        className="px-2 py-1 rounded-md text-xs bg-[#333] text-gray-300 hover:bg-blue-600 hover:text-white transition-colors"
+        title={`Export as ${label}`}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
+
+type SearchMode = 'text' | 'semantic';
+
+const GROUP_OPTIONS: Array<{ groupBy: GroupBy; label: string }> = [
+  { groupBy: 'date', label: 'Date' },
+  { groupBy: 'folder', label: 'Folder' },
+  { groupBy: 'tag', label: 'Tag' }
+];
+
+/**
+ * Text with the matched ranges marked
+ */
+const HighlightedText: React.FC<{ text: string; highlights: HighlightRange[] }> = ({ text, highlights }) => {
+  if (highlights.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-500/30 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <>{parts}</>;
+};
+
 /**
  * HistoryPopup component for displaying conversation history
+ * Conversations are grouped by date, folder or tag, can be pinned, tagged and archived,
+ * and can be selected for moving, exporting or deleting together
+ * Searching matches message contents as well as titles, or, in semantic mode,
+ * finds messages by meaning using the locally saved embedding index
  */
 const HistoryPopup = forwardRef<HTMLDivElement, HistoryPopupProps>(({ onClose }, ref) => {
   const { 
@@ -15,22 +92,263 @@ const HistoryPopup = forwardRef<HTMLDivElement, HistoryPopupProps>(({ onClose },
     activeConversation, 
     setActiveConversation,
     deleteConversation,
-    startNewConversation
+    deleteConversations,
+    startNewConversation,
+    importConversations,
+    openMessage,
+    folders,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    moveConversations,
+    setConversationTags,
+    setConversationsPinned,
+    setConversationsArchived,
+    generateConversationTitle,
+    semanticSearchEnabled,
+    setSemanticSearchEnabled,
+    semanticIndexStatus,
+    searchHistorySemantically,
+    retrySemanticIndexing
   } = useChat();
   
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<SearchMode>('text');
+  const [semanticMatches, setSemanticMatches] = useState<SemanticMatch[] | null>(null);
+  const [isSemanticSearching, setIsSemanticSearching] = useState(false);
+  const [semanticError, setSemanticError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
-  
-  // Filter conversations based on search query
-  const filteredConversations = conversations.filter(conv => 
-    conv.title.toLowerCase().includes(searchQuery.toLowerCase())
+  // Conversation ID (or 'all' or 'selected') whose export format buttons are showing
+  const [exportMenuFor, setExportMenuFor] = useState<string | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>(() => 
+    (localStorage.getItem('historyGroupBy') as GroupBy | null) || 'date'
   );
+  const [showArchived, setShowArchived] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+  const [editingTagsFor, setEditingTagsFor] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  // Folder being renamed, or 'new' while a folder is being created
+  const [editingFolder, setEditingFolder] = useState<string | null>(null);
+  const [folderDraft, setFolderDraft] = useState('');
+  // Conversations being named by the model, and why naming last failed
+  const [namingIds, setNamingIds] = useState<string[]>([]);
+  const [namingError, setNamingError] = useState<{ id: string; message: string } | null>(null);
+  const [importStatus, setImportStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  
+  const trimmedQuery = searchQuery.trim();
+  const isSemanticMode = searchMode === 'semantic' && semanticSearchEnabled;
+  
+  // Semantic search embeds the query with the API, so wait for typing to pause
+  useEffect(() => {
+    setSemanticMatches(null);
+    setSemanticError(null);
+    if (!isSemanticMode || !trimmedQuery) return;
+    
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsSemanticSearching(true);
+      searchHistorySemantically(trimmedQuery, controller.signal)
+        .then(setSemanticMatches)
+        .catch(error => {
+          if (!controller.signal.aborted) {
+            setSemanticError(toGeminiError(error).message);
+          }
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            setIsSemanticSearching(false);
+          }
+        });
+    }, 500);
+    
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setIsSemanticSearching(false);
+    };
+  }, [trimmedQuery, isSemanticMode]);
+  
+  useEffect(() => {
+    localStorage.setItem('historyGroupBy', groupBy);
+  }, [groupBy]);
+  
+  // Searches cover archived conversations too; results are listed by relevance instead of grouped
+  const results: ConversationSearchResult[] = useMemo(() => {
+    if (!trimmedQuery) return [];
+    if (isSemanticMode) {
+      return semanticMatches ? groupSemanticMatches(conversations, semanticMatches) : [];
+    }
+    return searchConversations(conversations, trimmedQuery);
+  }, [conversations, trimmedQuery, isSemanticMode, semanticMatches]);
+  
+  const archivedCount = conversations.filter(conv => conv.archived).length;
+  
+  const groups: ConversationGroup[] = useMemo(() => {
+    const visible = showArchived ? conversations : conversations.filter(conv => !conv.archived);
+    return groupConversations(visible, groupBy, folders);
+  }, [conversations, showArchived, groupBy, folders]);
+  
+  // Conversations that can currently be selected, in list order
+  const listedIds = useMemo(() => {
+    const ids = trimmedQuery
+      ? results.map(result => result.conversation.id)
+      : groups.flatMap(group => group.conversations.map(conv => conv.id));
+    return Array.from(new Set(ids));
+  }, [trimmedQuery, results, groups]);
+  
+  const selectedConversations = conversations.filter(conv => selectedIds.includes(conv.id));
+  const allSelectedArchived = selectedConversations.length > 0 && selectedConversations.every(conv => conv.archived);
+  const allSelectedPinned = selectedConversations.length > 0 && selectedConversations.every(conv => conv.pinned);
+  
+  // Drop selected conversations that were deleted
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const remaining = prev.filter(id => conversations.some(conv => conv.id === id));
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }, [conversations]);
+  
+  const toggleSelecting = () => {
+    setIsSelecting(prev => !prev);
+    setSelectedIds([]);
+    setShowBulkDeleteConfirm(false);
+    setExportMenuFor(null);
+  };
+  
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+  
+  const handleBulkMove = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { value } = e.target;
+    if (value === 'new') {
+      const name = window.prompt('Folder name');
+      if (name?.trim()) {
+        moveConversations(selectedIds, createFolder(name).id);
+      }
+    } else if (value) {
+      moveConversations(selectedIds, value === 'none' ? null : value);
+    }
+  };
+  
+  const confirmBulkDelete = () => {
+    deleteConversations(selectedIds);
+    setSelectedIds([]);
+    setShowBulkDeleteConfirm(false);
+  };
+  
+  const startEditingTags = (conv: Conversation, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingTagsFor(conv.id);
+    setTagDraft((conv.tags || []).join(', '));
+  };
+  
+  const saveTags = (id: string) => {
+    setConversationTags(id, tagDraft.split(','));
+    setEditingTagsFor(null);
+  };
+  
+  const handleGenerateTitle = async (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setNamingIds(prev => [...prev, id]);
+    setNamingError(null);
+    
+    try {
+      await generateConversationTitle(id);
+    } catch (error) {
+      setNamingError({ id, message: error instanceof Error ? error.message : 'Could not generate a title' });
+    } finally {
+      setNamingIds(prev => prev.filter(namingId => namingId !== id));
+    }
+  };
+  
+  const saveFolder = () => {
+    const name = folderDraft.trim();
+    if (name) {
+      if (editingFolder === 'new') {
+        createFolder(name);
+      } else if (editingFolder) {
+        renameFolder(editingFolder, name);
+      }
+    }
+    setEditingFolder(null);
+    setFolderDraft('');
+  };
+  
+  const handleDeleteFolder = (id: string, name: string) => {
+    if (window.confirm(`Delete the folder "${name}"? Its conversations are kept and moved out of it.`)) {
+      deleteFolder(id);
+    }
+  };
   
   const handleConversationClick = (conversationId: string) => {
+    if (isSelecting) {
+      toggleSelected(conversationId);
+      return;
+    }
+    
     setActiveConversation(conversationId);
     onClose();
   };
   
+  const handleSnippetClick = (conversationId: string, messageId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    openMessage(conversationId, messageId);
+    onClose();
+  };
+  
+  const renderSemanticStatus = () => {
+    if (!semanticSearchEnabled) {
+      return (
+        <div className="mt-2 text-xs text-gray-400">
+          Semantic search finds messages by meaning. Every message is sent to the Gemini embedding model
+          once to build an index saved in this browser.
+          <button
+            onClick={() => setSemanticSearchEnabled(true)}
+            className="block mt-2 px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+          >
+            Enable semantic search
+          </button>
+        </div>
+      );
+    }
+    
+    const { indexedCount, pendingCount, isIndexing, error } = semanticIndexStatus;
+    
+    return (
+      <div className="mt-2 flex items-center justify-between gap-2 text-xs">
+        {error ? (
+          <span className="text-red-400 truncate" title={error.message}>Indexing stopped: {error.message}</span>
+        ) : (
+          <span className="text-gray-500">
+            {isIndexing
+              ? `Indexing messages… ${pendingCount} left`
+              : `${indexedCount} message${indexedCount === 1 ? '' : 's'} indexed`}
+          </span>
+        )}
+        <div className="flex items-center gap-2 shrink-0">
+          {error && (
+            <button onClick={retrySemanticIndexing} className="text-gray-300 hover:text-white">
+              Retry
+            </button>
+          )}
+          <button
+            onClick={() => {
+              setSemanticSearchEnabled(false);
+              setSearchMode('text');
+            }}
+            className="text-gray-500 hover:text-gray-300"
+          >
+            Turn off
+          </button>
+        </div>
+      </div>
+    );
+  };
+  
   const handleDeleteConversation = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setShowDeleteConfirm(id);
@@ -42,6 +360,37 @@ const HistoryPopup = forwardRef<HTMLDivElement, HistoryPopupProps>(({ onClose },
     setShowDeleteConfirm(null);
   };
   
+  const handleExport = (id: string, format: ExportFormat) => {
+    const toExport = id === 'all' 
+      ? conversations 
+      : id === 'selected' 
+        ? selectedConversations 
+        : conversations.filter(conv => conv.id === id);
+    exportConversations(toExport, format);
+    setExportMenuFor(null);
+  };
+  
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input so the same file can be imported again
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const imported = parseConversationArchive(await file.text());
+      importConversations(imported);
+      setImportStatus({ 
+        type: 'success', 
+        message: `Imported ${imported.length} conversation${imported.length === 1 ? '' : 's'}` 
+      });
+    } catch (error) {
+      setImportStatus({ 
+        type: 'error', 
+        message: error instanceof Error ? error.message : 'Could not import the file' 
+      });
+    }
+  };
+  
   const handleNewChat = () => {
     startNewConversation();
     onClose();
@@ -57,6 +406,223 @@ const HistoryPopup = forwardRef<HTMLDivElement, HistoryPopupProps>(({ onClose },
     });
   };
   
+  const renderFolderInput = () => (
+    <input
+      autoFocus
+      type="text"
+      value={folderDraft}
+      placeholder="Folder name"
+      onChange={(e) => setFolderDraft(e.target.value)}
+      onBlur={saveFolder}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') saveFolder();
+        if (e.key === 'Escape') setEditingFolder(null);
+      }}
+      className="w-full bg-[#252525] text-white text-sm rounded-lg px-3 py-1.5 mb-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+    />
+  );
+  
+  const renderConversation = (conv: Conversation, key: string, match?: ConversationSearchResult) => {
+    const folder = conv.folderId ? folders.find(f => f.id === conv.folderId) : undefined;
+    const isSelected = selectedIds.includes(conv.id);
+    
+    return (
+      <div
+        key={key}
+        onClick={() => handleConversationClick(conv.id)}
+        className={`p-3 rounded-lg cursor-pointer transition-colors ${
+          isSelecting && isSelected
+            ? 'bg-blue-600/20 border border-blue-500/30'
+            : !isSelecting && activeConversation?.id === conv.id
+              ? 'bg-blue-600/20 border border-blue-500/30'
+              : 'hover:bg-[#252525] border border-transparent'
+        } ${conv.archived ? 'opacity-70' : ''}`}
+      >
+        <div className="flex justify-between items-start gap-2">
+          {isSelecting && (
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => toggleSelected(conv.id)}
+              onClick={(e) => e.stopPropagation()}
+              className="mt-1 accent-blue-600"
+              aria-label={`Select ${conv.title}`}
+            />
+          )}
+          <div className="flex-1 min-w-0">
+            <h3 className="text-white font-medium truncate flex items-center gap-1.5">
+              {conv.pinned && (
+                <svg className="shrink-0 text-blue-400" width="12" height="12" viewBox="0 0 24 24" fill="currentColor" aria-label="Pinned">
+                  <path d="M16 3l5 5-3 1-4 4 1 5-2 2-4-4-5 5-1-1 5-5-4-4 2-2 5 1 4-4z"></path>
+                </svg>
+              )}
+              <span className="truncate">
+                <HighlightedText text={conv.title} highlights={match?.titleHighlights || []} />
+              </span>
+              {conv.archived && (
+                <span className="shrink-0 text-[10px] font-normal px-1.5 py-0.5 rounded bg-[#333] text-gray-400">Archived</span>
+              )}
+            </h3>
+            <p className="text-gray-400 text-sm mt-1">
+              {formatDate(conv.createdAt)}
+              {folder && groupBy !== 'folder' && ` · ${folder.name}`}
+              {match && match.matchCount > 0 && ` · ${match.matchCount} matching message${match.matchCount === 1 ? '' : 's'}`}
+            </p>
+            {namingError?.id === conv.id && (
+              <p className="text-xs text-red-400 mt-1">{namingError.message}</p>
+            )}
+            {editingTagsFor === conv.id ? (
+              <input
+                autoFocus
+                type="text"
+                value={tagDraft}
+                placeholder="Tags, separated by commas"
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setTagDraft(e.target.value)}
+                onBlur={() => saveTags(conv.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveTags(conv.id);
+                  if (e.key === 'Escape') setEditingTagsFor(null);
+                }}
+                className="w-full mt-2 bg-[#252525] text-white text-xs rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            ) : conv.tags && conv.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {conv.tags.map(tag => (
+                  <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-[#333] text-gray-300">#{tag}</span>
+                ))}
+              </div>
+            )}
+          </div>
+          
+          {isSelecting ? null : showDeleteConfirm === conv.id ? (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={(e) => confirmDelete(conv.id, e)}
+                className="p-1.5 rounded-full bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                aria-label="Confirm delete"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <polyline points="20 6 9 17 4 12"></polyline>
+                </svg>
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowDeleteConfirm(null);
+                }}
+                className="p-1.5 rounded-full bg-[#333] text-gray-400 hover:bg-[#444]"
+                aria-label="Cancel delete"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <line x1="18" y1="6" x2="6" y2="18"></line>
+                  <line x1="6" y1="6" x2="18" y2="18"></line>
+                </svg>
+              </button>
+            </div>
+          ) : exportMenuFor === conv.id ? (
+            <ExportFormatButtons onSelect={(format) => handleExport(conv.id, format)} />
+          ) : (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setConversationsPinned([conv.id], !conv.pinned);
+                }}
+                className={`p-1.5 rounded-full hover:bg-[#333] hover:text-white ${conv.pinned ? 'text-blue-400' : 'text-gray-400'}`}
+                aria-label={conv.pinned ? 'Unpin conversation' : 'Pin conversation'}
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M16 3l5 5-3 1-4 4 1 5-2 2-4-4-5 5-1-1 5-5-4-4 2-2 5 1 4-4z"></path>
+                </svg>
+              </button>
+              <button
+                onClick={(e) => handleGenerateTitle(conv.id, e)}
+                disabled={namingIds.includes(conv.id)}
+                className={`p-1.5 rounded-full text-gray-400 hover:bg-[#333] hover:text-white disabled:opacity-50 ${namingIds.includes(conv.id) ? 'animate-pulse' : ''}`}
+                aria-label="Generate a title"
+                title="Generate a title"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M12 3l1.9 5.8L20 10l-6.1 1.2L12 17l-1.9-5.8L4 10l6.1-1.2z"></path>
+                  <path d="M19 17l.6 1.8L21 19.4l-1.4.6L19 22l-.6-2L17 19.4l1.4-.6z"></path>
+                </svg>
+              </button>
+              <button
+                onClick={(e) => startEditingTags(conv, e)}
+                className="p-1.5 rounded-full text-gray-400 hover:bg-[#333] hover:text-white"
+                aria-label="Edit tags"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z"></path>
+                  <line x1="7" y1="7" x2="7.01" y2="7"></line>
+                </svg>
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setConversationsArchived([conv.id], !conv.archived);
+                }}
+                className="p-1.5 rounded-full text-gray-400 hover:bg-[#333] hover:text-white"
+                aria-label={conv.archived ? 'Unarchive conversation' : 'Archive conversation'}
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <polyline points="21 8 21 21 3 21 3 8"></polyline>
+                  <rect x="1" y="3" width="22" height="5"></rect>
+                  <line x1="10" y1="12" x2="14" y2="12"></line>
+                </svg>
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setExportMenuFor(conv.id);
+                }}
+                className="p-1.5 rounded-full text-gray-400 hover:bg-[#333] hover:text-white"
+                aria-label="Export conversation"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                  <polyline points="7 10 12 15 17 10"></polyline>
+                  <line x1="12" y1="15" x2="12" y2="3"></line>
+                </svg>
+              </button>
+              <button
+                onClick={(e) => handleDeleteConversation(conv.id, e)}
+                className="p-1.5 rounded-full text-gray-400 hover:bg-[#333] hover:text-white"
+                aria-label="Delete conversation"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <polyline points="3 6 5 6 21 6"></polyline>
+                  <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+                </svg>
+              </button>
+            </div>
+          )}
+        </div>
+        
+        {match && match.snippets.length > 0 && (
+          <div className="mt-2 space-y-1">
+            {match.snippets.map(snippet => (
+              <button
+                key={snippet.messageId}
+                onClick={(e) => handleSnippetClick(conv.id, snippet.messageId, e)}
+                className="block w-full text-left text-xs text-gray-300 rounded-md px-2 py-1.5 bg-[#252525] hover:bg-[#333] transition-colors"
+              >
+                <span className="flex items-center justify-between gap-2 text-gray-500 mb-0.5">
+                  <span>{snippet.role === 'user' ? 'You' : 'Gemini'}</span>
+                  {snippet.score !== undefined && <span>{Math.round(snippet.score * 100)}% match</span>}
+                </span>
+                <span className="line-clamp-3 break-words">
+                  <HighlightedText text={snippet.text} highlights={snippet.highlights} />
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+  
   return (
     <motion.div
       ref={ref}
@@ -64,7 +630,7 @@ const HistoryPopup = forwardRef<HTMLDivElement, HistoryPopupProps>(({ onClose },
       animate={{ scale: 1, opacity: 1 }}
       exit={{ scale: 0.95, opacity: 0 }}
       transition={{ duration: 0.2 }}
-      className="bg-[#1d1e20] rounded-xl shadow-xl border border-[#333] w-full max-w-md max-h-[80vh] overflow-hidden flex flex-col"
+      className="bg-[#1d1e20] rounded-xl shadow-xl border border-[#333] w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col"
     >
       <div className="p-4 border-b border-[#333] flex justify-between items-center">
         <h2 className="text-lg font-medium text-white">Conversation History</h2>
@@ -105,79 +671,249 @@ const HistoryPopup = forwardRef<HTMLDivElement, HistoryPopupProps>(({ onClose },
           </svg>
         </div>
         
+        <div className="flex items-center gap-1 mt-2 text-xs">
+          {([
+            { mode: 'text', label: 'Text' },
+            { mode: 'semantic', label: 'Semantic' }
+          ] as Array<{ mode: SearchMode; label: string }>).map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => setSearchMode(mode)}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                searchMode === mode ? 'bg-[#333] text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        
+        {searchMode === 'semantic' && renderSemanticStatus()}
+        
         <button
           onClick={handleNewChat}
           className="w-full mt-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 transition-colors"
         >
           New Chat
         </button>
+        
+        <div className="flex items-center gap-2 mt-3">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex-1 bg-[#252525] hover:bg-[#333] text-gray-300 rounded-lg px-3 py-1.5 text-sm transition-colors"
+          >
+            Import
+          </button>
+          {exportMenuFor === 'all' ? (
+            <div className="flex-1 flex justify-center">
+              <ExportFormatButtons onSelect={(format) => handleExport('all', format)} />
+            </div>
+          ) : (
+            <button
+              onClick={() => setExportMenuFor('all')}
+              disabled={conversations.length === 0}
+              className="flex-1 bg-[#252525] hover:bg-[#333] text-gray-300 rounded-lg px-3 py-1.5 text-sm transition-colors disabled:opacity-50"
+            >
+              Export all
+            </button>
+          )}
+        </div>
+        
+        {importStatus && (
+          <p className={`mt-2 text-xs ${importStatus.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+            {importStatus.message}
+          </p>
+        )}
       </div>
       
+      <div className="px-4 py-2 border-b border-[#333] flex items-center justify-between gap-2 text-xs">
+        <div className="flex items-center gap-1">
+          <span className="text-gray-500 mr-1">Group by</span>
+          {GROUP_OPTIONS.map(option => (
+            <button
+              key={option.groupBy}
+              onClick={() => setGroupBy(option.groupBy)}
+              disabled={!!trimmedQuery}
+              className={`px-2 py-1 rounded-md transition-colors disabled:opacity-50 ${
+                groupBy === option.groupBy ? 'bg-[#333] text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowArchived(prev => !prev)}
+            className={`px-2 py-1 rounded-md transition-colors ${
+              showArchived ? 'bg-[#333] text-white' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            Archived{archivedCount > 0 && ` (${archivedCount})`}
+          </button>
+          <button
+            onClick={toggleSelecting}
+            className={`px-2 py-1 rounded-md transition-colors ${
+              isSelecting ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {isSelecting ? 'Done' : 'Select'}
+          </button>
+        </div>
+      </div>
+      
+      {isSelecting && (
+        <div className="px-4 py-2 border-b border-[#333] flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-300">{selectedIds.length} selected</span>
+          <button
+            onClick={() => setSelectedIds(selectedIds.length === listedIds.length ? [] : listedIds)}
+            className="text-gray-400 hover:text-white"
+          >
+            {selectedIds.length === listedIds.length && listedIds.length > 0 ? 'Select none' : 'Select all'}
+          </button>
+          <div className="flex-1"></div>
+          {showBulkDeleteConfirm ? (
+            <>
+              <span className="text-red-400">Delete {selectedIds.length}?</span>
+              <button onClick={confirmBulkDelete} className="px-2 py-1 rounded-md bg-red-500/20 text-red-400 hover:bg-red-500/30">
+                Delete
+              </button>
+              <button onClick={() => setShowBulkDeleteConfirm(false)} className="px-2 py-1 rounded-md bg-[#333] text-gray-300 hover:bg-[#444]">
+                Cancel
+              </button>
+            </>
+          ) : exportMenuFor === 'selected' ? (
+            <ExportFormatButtons onSelect={(format) => handleExport('selected', format)} />
+          ) : (
+            <>
+              <select
+                value=""
+                onChange={handleBulkMove}
+                disabled={selectedIds.length === 0}
+                className="bg-[#252525] text-gray-300 rounded-md px-2 py-1 focus:outline-none disabled:opacity-50"
+                aria-label="Move to folder"
+              >
+                <option value="" disabled>Move to…</option>
+                {folders.map(folder => (
+                  <option key={folder.id} value={folder.id}>{folder.name}</option>
+                ))}
+                <option value="none">No folder</option>
+                <option value="new">New folder…</option>
+              </select>
+              <button
+                onClick={() => setConversationsPinned(selectedIds, !allSelectedPinned)}
+                disabled={selectedIds.length === 0}
+                className="px-2 py-1 rounded-md bg-[#252525] text-gray-300 hover:bg-[#333] disabled:opacity-50"
+              >
+                {allSelectedPinned ? 'Unpin' : 'Pin'}
+              </button>
+              <button
+                onClick={() => setConversationsArchived(selectedIds, !allSelectedArchived)}
+                disabled={selectedIds.length === 0}
+                className="px-2 py-1 rounded-md bg-[#252525] text-gray-300 hover:bg-[#333] disabled:opacity-50"
+              >
+                {allSelectedArchived ? 'Unarchive' : 'Archive'}
+              </button>
+              <button
+                onClick={() => setExportMenuFor('selected')}
+                disabled={selectedIds.length === 0}
+                className="px-2 py-1 rounded-md bg-[#252525] text-gray-300 hover:bg-[#333] disabled:opacity-50"
+              >
+                Export
+              </button>
+              <button
+                onClick={() => setShowBulkDeleteConfirm(true)}
+                disabled={selectedIds.length === 0}
+                className="px-2 py-1 rounded-md bg-[#252525] text-red-400 hover:bg-[#333] disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      
       <div className="flex-1 overflow-y-auto p-2">
-        {filteredConversations.length === 0 ? (
-          <div className="text-center py-8 text-gray-400">
-            No conversations found
-          </div>
+        {trimmedQuery ? (
+          isSemanticMode && (isSemanticSearching || semanticError) ? (
+            <div className={`text-center py-8 ${semanticError ? 'text-red-400' : 'text-gray-400'}`}>
+              {semanticError || 'Searching…'}
+            </div>
+          ) : results.length === 0 ? (
+            <div className="text-center py-8 text-gray-400">
+              No conversations found
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {results.map(result => renderConversation(result.conversation, result.conversation.id, result))}
+            </div>
+          )
         ) : (
-          <div className="space-y-2">
-            {filteredConversations.map(conv => (
-              <div
-                key={conv.id}
-                onClick={() => handleConversationClick(conv.id)}
-                className={`p-3 rounded-lg cursor-pointer transition-colors ${
-                  activeConversation?.id === conv.id
-                    ? 'bg-blue-600/20 border border-blue-500/30'
-                    : 'hover:bg-[#252525] border border-transparent'
-                }`}
-              >
-                <div className="flex justify-between items-start">
-                  <div className="flex-1 min-w-0">
-                    <h3 className="text-white font-medium truncate">{conv.title}</h3>
-                    <p className="text-gray-400 text-sm mt-1">
-                      {formatDate(conv.createdAt)}
-                    </p>
-                  </div>
-                  
-                  {showDeleteConfirm === conv.id ? (
-                    <div className="flex items-center gap-1">
-                      <button
-                        onClick={(e) => confirmDelete(conv.id, e)}
-                        className="p-1.5 rounded-full bg-red-500/20 text-red-400 hover:bg-red-500/30"
-                        aria-label="Confirm delete"
-                      >
-                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                          <polyline points="20 6 9 17 4 12"></polyline>
-                        </svg>
-                      </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setShowDeleteConfirm(null);
-                        }}
-                        className="p-1.5 rounded-full bg-[#333] text-gray-400 hover:bg-[#444]"
-                        aria-label="Cancel delete"
-                      >
-                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                          <line x1="18" y1="6" x2="6" y2="18"></line>
-                          <line x1="6" y1="6" x2="18" y2="18"></line>
-                        </svg>
-                      </button>
+          <div className="space-y-4">
+            {groupBy === 'folder' && (
+              editingFolder === 'new' ? renderFolderInput() : (
+                <button
+                  onClick={() => {
+                    setEditingFolder('new');
+                    setFolderDraft('');
+                  }}
+                  className="w-full text-left px-3 py-1.5 rounded-lg text-xs text-gray-400 hover:bg-[#252525] hover:text-white transition-colors"
+                >
+                  + New folder
+                </button>
+              )
+            )}
+            
+            {groups.length === 0 ? (
+              <div className="text-center py-8 text-gray-400">
+                No conversations found
+              </div>
+            ) : (
+              groups.map(group => (
+                <section key={group.id}>
+                  {editingFolder && editingFolder === group.folderId ? renderFolderInput() : (
+                    <div className="group flex items-center justify-between px-3 mb-1">
+                      <h3 className="text-xs font-medium uppercase tracking-wide text-gray-500">
+                        {group.label} <span className="normal-case text-gray-600">· {group.conversations.length}</span>
+                      </h3>
+                      {group.folderId && (
+                        <div className="flex items-center gap-2 text-xs opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={() => {
+                              setEditingFolder(group.folderId as string);
+                              setFolderDraft(group.label);
+                            }}
+                            className="text-gray-500 hover:text-white"
+                          >
+                            Rename
+                          </button>
+                          <button
+                            onClick={() => handleDeleteFolder(group.folderId as string, group.label)}
+                            className="text-gray-500 hover:text-red-400"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )}
                     </div>
+                  )}
+                  {group.conversations.length === 0 ? (
+                    <p className="px-3 py-2 text-xs text-gray-600">Empty folder</p>
                   ) : (
-                    <button
-                      onClick={(e) => handleDeleteConversation(conv.id, e)}
-                      className="p-1.5 rounded-full text-gray-400 hover:bg-[#333] hover:text-white"
-                      aria-label="Delete conversation"
-                    >
-                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                        <polyline points="3 6 5 6 21 6"></polyline>
-                        <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
-                      </svg>
-                    </button>
+                    <div className="space-y-2">
+                      {group.conversations.map(conv => renderConversation(conv, `${group.id}-${conv.id}`))}
+                    </div>
                   )}
-                </div>
-              </div>
-            ))}
+                </section>
+              ))
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { supportsAttachments } from '../../../shared/utils/geminiModels';
+import { useGeminiService } from '../../gemini/context/GeminiServiceContext';
+
+interface RegenerateMenuProps {
+  onRegenerate: (modelId: string) => void;
+  currentModelId?: string;
+  isDeepSearch?: boolean;
+  hasAttachments?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * RegenerateMenu component for re-running a response on a chosen model
+ */
+const RegenerateMenu: React.FC<RegenerateMenuProps> = ({
+  onRegenerate,
+  currentModelId,
+  isDeepSearch = false,
+  hasAttachments = false,
+  disabled = false
+}) => {
+  const { models } = useGeminiService();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = (modelId: string) => {
+    setIsOpen(false);
+    onRegenerate(modelId);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="p-1 rounded text-gray-500 hover:bg-[#333] hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+        aria-label="Regenerate response"
+        title="Regenerate response"
+      >
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <polyline points="23 4 23 10 17 10"></polyline>
+          <polyline points="1 20 1 14 7 14"></polyline>
+          <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path>
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-64 bg-[#1d1e20] border border-[#333] rounded-lg shadow-xl z-20 py-1">
+          <div className="px-3 py-1.5 text-xs text-gray-500">Regenerate with</div>
+          {models.map(model => {
+            // The same prompt must be answerable by the model: DeepSearch and attachments need support
+            const unsupportedReason = isDeepSearch && !model.supportsWebSearch
+              ? 'Web search not supported'
+              : hasAttachments && !supportsAttachments(model.id)
+                ? 'Attachments not supported'
+                : null;
+
+            return (
+              <button
+                key={model.id}
+                onClick={() => handleSelect(model.id)}
+                disabled={!!unsupportedReason}
+                className="w-full text-left px-3 py-1.5 text-sm text-gray-300 hover:bg-[#252525] hover:text-white disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+              >
+                <span>{model.name}</span>
+                {model.id === currentModelId && <span className="ml-2 text-xs text-gray-500">(current)</span>}
+                {unsupportedReason && <span className="block text-xs text-gray-500">{unsupportedReason}</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegenerateMenu;
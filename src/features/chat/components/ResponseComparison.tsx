@@ -0,0 +1,107 @@
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import MessageRenderer from '../../../shared/components/MessageRenderer';
+import { findModelById } from '../../../shared/utils/geminiModels';
+import { Message } from '../types/chat.types';
+
+interface ResponseComparisonProps {
+  variants: Message[];
+  activeVariantId: string;
+  onSelect: (messageId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * ResponseComparison component for viewing every response to the same prompt side by side
+ */
+const ResponseComparison: React.FC<ResponseComparisonProps> = ({ variants, activeVariantId, onSelect, onClose }) => {
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#1d1e20] rounded-xl shadow-xl border border-[#333] w-full max-w-7xl max-h-[90vh] overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[#333] flex justify-between items-center">
+          <h2 className="text-lg font-medium text-white">Compare Responses</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-[#333] text-gray-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-x-auto overflow-y-hidden flex gap-4 p-4">
+          {variants.map(variant => {
+            const model = variant.modelId ? findModelById(variant.modelId) : undefined;
+            const isActive = variant.id === activeVariantId;
+
+            return (
+              <div
+                key={variant.id}
+                className={`flex-1 min-w-[320px] flex flex-col rounded-lg border ${
+                  isActive ? 'border-blue-500/50 bg-blue-600/5' : 'border-[#333]'
+                }`}
+              >
+                <div className="p-3 border-b border-[#333] flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-white truncate">{model?.name || variant.modelId || 'Unknown model'}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(variant.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                      {variant.isDeepSearch && ' · Web Search'}
+                      {variant.status === 'stopped' && ' · Stopped'}
+                      {variant.status === 'blocked' && ' · Blocked'}
+                      {variant.status === 'error' && ' · Failed'}
+                    </div>
+                  </div>
+                  {isActive ? (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-blue-900/50 text-blue-300 font-medium">Shown</span>
+                  ) : (
+                    <button
+                      onClick={() => onSelect(variant.id)}
+                      className="px-2 py-1 rounded-md text-xs bg-[#333] text-gray-300 hover:bg-blue-600 hover:text-white transition-colors"
+                    >
+                      Use this
+                    </button>
+                  )}
+                </div>
+                <div className="flex-1 overflow-y-auto p-3">
+                  <MessageRenderer
+                    content={variant.content}
+                    citations={variant.metadata?.thinking?.citations || []}
+                    isStreaming={variant.status === 'streaming'}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ResponseComparison;
@@ -0,0 +1,153 @@
+import { forwardRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useChat } from '../context/ChatContext';
+import { getShareUrl } from '../utils/sharing';
+
+interface SharePopupProps {
+  onClose: () => void;
+}
+
+/**
+ * Popup for sharing the active conversation as a read-only link
+ * Each link is a snapshot of the current thread; messages sent afterwards are not added to it
+ */
+const SharePopup = forwardRef<HTMLDivElement, SharePopupProps>(({ onClose }, ref) => {
+  const { activeConversation, shares, shareConversation, revokeShare } = useChat();
+  const [isSharing, setIsSharing] = useState(false);
+  const [revokingIds, setRevokingIds] = useState<string[]>([]);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const conversationShares = shares.filter(share => share.conversationId === activeConversation?.id);
+  const canShare = !!activeConversation && activeConversation.messages.length > 0;
+
+  const handleCopy = (id: string) => {
+    navigator.clipboard.writeText(getShareUrl(id)).then(() => {
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(current => (current === id ? null : current)), 2000);
+    }).catch(() => {
+      setError('Could not copy the link. Select it and copy it by hand.');
+    });
+  };
+
+  const handleShare = async () => {
+    if (!activeConversation) return;
+
+    setIsSharing(true);
+    setError(null);
+    try {
+      const share = await shareConversation(activeConversation.id);
+      handleCopy(share.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the link');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!window.confirm('Revoke this link? Anyone who opens it will no longer see the conversation.')) return;
+
+    setRevokingIds(prev => [...prev, id]);
+    setError(null);
+    try {
+      await revokeShare(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revoke the link');
+    } finally {
+      setRevokingIds(prev => prev.filter(item => item !== id));
+    }
+  };
+
+  return (
+    <motion.div
+      ref={ref}
+      initial={{ scale: 0.95, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      exit={{ scale: 0.95, opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="bg-[#1d1e20] rounded-xl shadow-xl border border-[#333] w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col"
+    >
+      <div className="p-4 border-b border-[#333] flex justify-between items-center">
+        <h2 className="text-lg font-medium text-white">Share Conversation</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-full hover:bg-[#333] text-gray-400 hover:text-white transition-colors"
+          aria-label="Close"
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <line x1="18" y1="6" x2="6" y2="18"></line>
+            <line x1="6" y1="6" x2="18" y2="18"></line>
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <p className="text-sm text-gray-400">
+          Anyone with the link can read the current thread of this conversation, including sources and the models used.
+          Attached files are not shared, only their names.
+        </p>
+
+        <button
+          onClick={handleShare}
+          disabled={!canShare || isSharing}
+          className="w-full px-3 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSharing ? 'Creating link…' : 'Create link'}
+        </button>
+
+        {!canShare && (
+          <p className="text-xs text-gray-500">Send a message first; empty conversations cannot be shared.</p>
+        )}
+
+        {error && (
+          <div className="p-2 rounded-md border border-red-900/60 bg-red-950/20 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        {conversationShares.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Links to this conversation</h3>
+            <ul className="space-y-2">
+              {conversationShares.map(share => (
+                <li key={share.id} className="p-2 rounded-md bg-[#252525] border border-[#333]">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      readOnly
+                      value={getShareUrl(share.id)}
+                      onFocus={(e) => e.target.select()}
+                      className="flex-1 min-w-0 bg-transparent text-xs text-gray-300 focus:outline-none"
+                    />
+                    <button
+                      onClick={() => handleCopy(share.id)}
+                      className="shrink-0 px-2 py-1 rounded text-xs text-gray-300 hover:bg-[#333] hover:text-white"
+                    >
+                      {copiedId === share.id ? 'Copied' : 'Copy'}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(share.id)}
+                      disabled={revokingIds.includes(share.id)}
+                      className="shrink-0 px-2 py-1 rounded text-xs text-red-400 hover:bg-red-950/40 disabled:opacity-50"
+                    >
+                      {revokingIds.includes(share.id) ? 'Revoking…' : 'Revoke'}
+                    </button>
+                  </div>
+                  <div className="text-[11px] text-gray-500 mt-1">
+                    Shared {new Date(share.sharedAt).toLocaleString()}
+                    {share.title !== activeConversation?.title && ` as “${share.title}”`}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+});
+
+SharePopup.displayName = 'SharePopup';
+
+export default SharePopup;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import MessageRenderer from '../../../shared/components/MessageRenderer';
+import LoadingIndicator from '../../../shared/components/LoadingIndicator';
+import SourceCitation, { Source } from '../../../shared/components/SourceCitation';
+import { SharedConversation, SharedMessage } from '../types/chat.types';
+import { fetchSharedConversation, ShareError } from '../utils/sharing';
+
+/**
+ * Sources listed under a shared answer: the cited pages, or the pages searched when none were cited
+ */
+const getSources = (message: SharedMessage): Source[] => {
+  if (message.citations?.length) {
+    return message.citations;
+  }
+
+  return (message.sources || []).map((source, index) => ({ id: index + 1, ...source }));
+};
+
+// Shared user messages keep the /search prefix of DeepSearch queries; it is hidden as in the chat
+const cleanMessageText = (content: string): string => content.replace(/^\s*\/search\s+/i, '');
+
+/**
+ * Read-only page for a conversation shared by link
+ */
+const SharedConversationView: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const [conversation, setConversation] = useState<SharedConversation | null>(null);
+  const [error, setError] = useState<ShareError | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setConversation(null);
+    setError(null);
+
+    fetchSharedConversation(id, controller.signal)
+      .then(setConversation)
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof ShareError ? err : new ShareError('Could not load the shared conversation.'));
+      });
+
+    return () => controller.abort();
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="max-w-md mx-auto mt-16 bg-[#1d1e20] rounded-lg border border-[#333] p-6 text-center">
+        <h2 className="text-lg font-medium text-white mb-2">
+          {error.status === 410 ? 'Link revoked' : error.status === 404 ? 'Link not found' : 'Could not load this conversation'}
+        </h2>
+        <p className="text-sm text-gray-400 mb-4">{error.message}</p>
+        <Link to="/" className="inline-block px-4 py-2 rounded-md text-sm text-white bg-blue-600 hover:bg-blue-700">
+          Start your own chat
+        </Link>
+      </div>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <div className="mt-16">
+        <LoadingIndicator variant="dots" colorScheme="gray" text="Loading shared conversation..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto pb-16">
+      <div className="mb-6 pb-4 border-b border-[#333]">
+        <h1 className="text-xl font-bold text-white">{conversation.title}</h1>
+        <p className="text-xs text-gray-500 mt-1">
+          Shared {new Date(conversation.sharedAt).toLocaleString()} · Read-only snapshot
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {conversation.messages.map(message => {
+          const sources = message.role === 'assistant' ? getSources(message) : [];
+
+          return (
+            <div key={message.id}>
+              <div className="flex items-center mb-1 gap-2">
+                <div className="font-medium text-sm text-gray-300">
+                  {message.role === 'user' ? 'User' : 'Gemini AI'}
+                </div>
+
+                {message.role === 'assistant' && message.modelName && (
+                  <div className="text-xs px-2 py-0.5 rounded-full bg-gray-800 text-gray-400 font-medium" title={message.modelId}>
+                    {message.modelName}
+                  </div>
+                )}
+
+                {message.role === 'assistant' && message.isDeepSearch && (
+                  <div className="text-xs px-2 py-0.5 rounded-full bg-blue-900/50 text-blue-300 font-medium">
+                    Web Search
+                  </div>
+                )}
+
+                <div className="text-xs text-gray-500">
+                  {new Date(message.timestamp).toLocaleString(undefined, {
+                    dateStyle: 'medium',
+                    timeStyle: 'short'
+                  })}
+                </div>
+              </div>
+
+              {message.role === 'user' ? (
+                <>
+                  {message.attachmentNames && message.attachmentNames.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {message.attachmentNames.map((name, index) => (
+                        <span key={index} className="text-xs px-2 py-0.5 rounded bg-[#252525] border border-[#333] text-gray-400">
+                          {name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="text-gray-200 whitespace-pre-wrap">{cleanMessageText(message.content)}</div>
+                </>
+              ) : (
+                <>
+                  <MessageRenderer content={message.content} citations={message.citations || []} allowHtml={false} />
+                  {sources.length > 0 && (
+                    <div className="mt-4">
+                      <h3 className="text-xs font-medium text-gray-400 mb-2">Sources</h3>
+                      <SourceCitation sources={sources} />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SharedConversationView;
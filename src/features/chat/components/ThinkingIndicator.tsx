@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ThinkingProcess } from '../../gemini/types/gemini.types';
+import MessageRenderer from '../../../shared/components/MessageRenderer';
 
 interface ThinkingIndicatorProps {
   thinking: boolean;
@@ -8,6 +9,8 @@ interface ThinkingIndicatorProps {
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
   thinkingProcess?: ThinkingProcess;
+  // Reasoning returned by a thinking model
+  thoughts?: string;
 }
 
 /**
@@ -19,7 +22,8 @@ const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({
   isDeepSearch = false,
   isCollapsed = false,
   onToggleCollapse,
-  thinkingProcess
+  thinkingProcess,
+  thoughts
 }) => {
   // Debug: Log thinking process when it changes
   useEffect(() => {
@@ -29,9 +33,14 @@ const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({
   // Move useState hook to the top level of the component
   const [showAllResults, setShowAllResults] = useState(false);
   const [selectedTab, setSelectedTab] = useState<'steps' | 'sources' | 'reasoning'>('steps');
+  const [showThoughts, setShowThoughts] = useState(false);
 
-  // If not thinking and no thinking process, don't render anything
-  if (!thinking && (!thinkingProcess || !thinkingProcess.steps || thinkingProcess.steps.length === 0)) {
+  const hasThinkingProcess = !!thinkingProcess?.steps?.length;
+  // A thinking model's reasoning replaces the placeholder steps of a regular reply
+  const showTabs = hasThinkingProcess || isDeepSearch || !thoughts;
+
+  // If not thinking and no thinking process or reasoning, don't render anything
+  if (!thinking && !hasThinkingProcess && !thoughts) {
     console.log('ThinkingIndicator not rendering: thinking=', thinking, 'thinkingProcess=', thinkingProcess);
     return null;
   }
@@ -363,6 +372,34 @@ const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({
     );
   };
   
+  // Collapsible panel with the reasoning a thinking model returned
+  const renderModelReasoning = () => {
+    return (
+      <div className={`border border-gray-700 rounded-md ${showTabs ? 'mt-4' : ''}`}>
+        <button
+          onClick={() => setShowThoughts(!showThoughts)}
+          className="w-full flex items-center justify-between px-3 py-2 text-sm font-medium text-gray-300 hover:text-white transition-colors"
+          aria-expanded={showThoughts}
+        >
+          <span className="flex items-center">
+            <svg className="w-4 h-4 mr-2 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"></path>
+            </svg>
+            Model reasoning
+          </span>
+          <svg className={`w-4 h-4 transform transition-transform ${showThoughts ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+          </svg>
+        </button>
+        {showThoughts && (
+          <div className="px-3 py-3 border-t border-gray-700 text-sm text-gray-400 max-h-96 overflow-y-auto">
+            <MessageRenderer content={thoughts || ''} />
+          </div>
+        )}
+      </div>
+    );
+  };
+  
   // Render the selected tab content
   const renderTabContent = () => {
     switch (selectedTab) {
@@ -379,7 +416,7 @@ const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({
   
   return (
     <AnimatePresence>
-      {(thinking || (thinkingProcess && thinkingProcess.steps && thinkingProcess.steps.length > 0)) && (
+      {(thinking || hasThinkingProcess || thoughts) && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -389,7 +426,7 @@ const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({
         >
           {/* Progress bar */}
           <div className="perplexity-progress">
-            {thinking ? (
+            {thinking && !thinkingProcess?.progress ? (
               <div className="perplexity-progress-pulsate"></div>
             ) : (
               <div 
@@ -407,7 +444,19 @@ const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({
                   <div className="mr-2 w-4 h-4 relative">
                     <div className="absolute inset-0 border-2 border-blue-400 rounded-full border-t-transparent animate-spin"></div>
                   </div>
-                  <span className="text-blue-400 font-medium text-sm">Working on it...</span>
+                  <span className="text-blue-400 font-medium text-sm">
+                    {thinkingProcess?.stageProgress
+                      ? `Stage ${thinkingProcess.stageProgress.stageNumber} of ${thinkingProcess.stageProgress.totalStages}: ${thinkingProcess.stageProgress.currentStage}`
+                      : thoughts ? 'Reasoning...' : 'Working on it...'}
+                  </span>
+                  {thinkingProcess?.stageProgress?.detail && (
+                    <span className="ml-2 text-xs text-gray-400">{thinkingProcess.stageProgress.detail}</span>
+                  )}
+                  {!!thinkingProcess?.searchResults?.length && (
+                    <span className="ml-2 text-xs text-gray-400">
+                      {thinkingProcess.searchResults.length} source{thinkingProcess.searchResults.length !== 1 ? 's' : ''} found
+                    </span>
+                  )}
                 </div>
               ) : (
                 <div className="flex items-center">
@@ -433,10 +482,15 @@ const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({
           {/* Content */}
           {!isCollapsed && (
             <div className="p-4">
-              {renderTabNavigation()}
-              <div className="thinking-content">
-                {renderTabContent()}
-              </div>
+              {showTabs && (
+                <>
+                  {renderTabNavigation()}
+                  <div className="thinking-content">
+                    {renderTabContent()}
+                  </div>
+                </>
+              )}
+              {thoughts && renderModelReasoning()}
             </div>
           )}
         </motion.div>
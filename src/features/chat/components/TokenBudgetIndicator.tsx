@@ -0,0 +1,44 @@
+import React from 'react';
+import { TokenCount } from '../../gemini/types/gemini.types';
+
+interface TokenBudgetIndicatorProps {
+  count: TokenCount | null;
+  isCounting?: boolean;
+}
+
+const formatTokens = (tokens: number): string => {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(tokens % 1000000 === 0 ? 0 : 1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(tokens >= 100000 ? 0 : 1)}K`;
+  return String(tokens);
+};
+
+/**
+ * TokenBudgetIndicator component for showing how much of the model's context window
+ * the draft and the conversation history use
+ */
+const TokenBudgetIndicator: React.FC<TokenBudgetIndicatorProps> = ({ count, isCounting = false }) => {
+  if (!count) {
+    return null;
+  }
+
+  const usage = count.totalTokens / count.maxInputTokens;
+  const barColor = usage > 1 ? 'bg-red-500' : usage > 0.7 ? 'bg-yellow-500' : 'bg-blue-600';
+  const textColor = usage > 1 ? 'text-red-400' : usage > 0.7 ? 'text-yellow-400' : 'text-gray-500';
+
+  return (
+    <div
+      className={`flex items-center justify-end gap-2 mt-2 text-xs ${textColor} ${isCounting ? 'opacity-60' : ''}`}
+      title={count.estimated ? 'Estimated locally, the token count could not be fetched' : 'Counted by the Gemini API'}
+    >
+      {usage > 1 && <span>Older messages will be left out to fit the context window</span>}
+      <div className="w-24 h-1.5 rounded-full bg-[#333] overflow-hidden">
+        <div className={`h-full ${barColor} transition-all`} style={{ width: `${Math.min(usage, 1) * 100}%` }}></div>
+      </div>
+      <span>
+        {count.estimated && '~'}{formatTokens(count.totalTokens)} / {formatTokens(count.maxInputTokens)} tokens
+      </span>
+    </div>
+  );
+};
+
+export default TokenBudgetIndicator;
@@ -0,0 +1,158 @@
+import React, { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useChat } from '../context/ChatContext';
+import { findModelById } from '../../../shared/utils/geminiModels';
+import {
+  formatCost,
+  formatTokenCount,
+  getDailyUsage,
+  getUsageByConversation,
+  getUsageByModel
+} from '../utils/usage';
+
+// Number of days shown in the daily usage chart
+const CHART_DAYS = 14;
+
+/**
+ * UsageDashboard component for reviewing token usage and estimated cost
+ * Costs are estimated from paid tier prices, so free tier usage shows what it would have cost
+ */
+const UsageDashboard: React.FC = () => {
+  const { usageLog, clearUsageLog, conversations, setActiveConversation } = useChat();
+  const navigate = useNavigate();
+
+  const dailyUsage = useMemo(() => getDailyUsage(usageLog, CHART_DAYS), [usageLog]);
+  const modelUsage = useMemo(() => getUsageByModel(usageLog), [usageLog]);
+  const conversationUsage = useMemo(() => getUsageByConversation(usageLog).slice(0, 5), [usageLog]);
+
+  const totalTokens = usageLog.reduce((total, entry) => total + entry.totalTokens, 0);
+  const totalCost = modelUsage.reduce((total, model) => total + model.estimatedCost, 0);
+  const maxDailyTokens = Math.max(...dailyUsage.map(day => day.totalTokens), 1);
+
+  const openConversation = (id: string) => {
+    setActiveConversation(id);
+    navigate('/');
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Clear all recorded usage? Token counts shown on messages are kept.')) {
+      clearUsageLog();
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">Usage</h2>
+        <button
+          onClick={handleClear}
+          disabled={usageLog.length === 0}
+          className="px-3 py-1.5 rounded-md text-sm text-gray-300 bg-[#1d1e20] border border-[#333] hover:bg-[#252525] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear usage
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {[
+          { label: 'Requests', value: usageLog.length.toLocaleString() },
+          { label: 'Tokens', value: formatTokenCount(totalTokens) },
+          { label: 'Estimated cost', value: formatCost(totalCost) }
+        ].map(({ label, value }) => (
+          <div key={label} className="bg-[#1d1e20] border border-[#333] rounded-lg p-4">
+            <div className="text-xs text-gray-500">{label}</div>
+            <div className="text-2xl font-semibold text-white mt-1">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <section className="bg-[#1d1e20] border border-[#333] rounded-lg p-4">
+        <h3 className="text-sm font-medium text-gray-300 mb-4">Daily usage (last {CHART_DAYS} days)</h3>
+        <div className="flex items-end gap-1 h-40">
+          {dailyUsage.map(day => (
+            <div
+              key={day.date.toISOString()}
+              className="flex-1 flex flex-col items-center justify-end h-full group"
+              title={`${day.date.toLocaleDateString()}: ${day.requests} requests, ${formatTokenCount(day.totalTokens)} tokens, ${formatCost(day.estimatedCost)}`}
+            >
+              <div
+                className="w-full rounded-t bg-blue-600 group-hover:bg-blue-500 transition-colors"
+                style={{ height: `${(day.totalTokens / maxDailyTokens) * 100}%`, minHeight: day.totalTokens > 0 ? '2px' : 0 }}
+              ></div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-2">
+          {dailyUsage.map(day => (
+            <div key={day.date.toISOString()} className="flex-1 text-center text-[10px] text-gray-500">
+              {day.date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-[#1d1e20] border border-[#333] rounded-lg p-4">
+        <h3 className="text-sm font-medium text-gray-300 mb-3">Cost per model</h3>
+        {modelUsage.length === 0 ? (
+          <p className="text-sm text-gray-500">No usage recorded yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 text-left">
+                <th className="font-normal pb-2">Model</th>
+                <th className="font-normal pb-2 text-right">Requests</th>
+                <th className="font-normal pb-2 text-right">Prompt tokens</th>
+                <th className="font-normal pb-2 text-right">Response tokens</th>
+                <th className="font-normal pb-2 text-right">Estimated cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {modelUsage.map(model => (
+                <tr key={model.modelId} className="border-t border-[#333] text-gray-300">
+                  <td className="py-2">{findModelById(model.modelId)?.name || model.modelId}</td>
+                  <td className="py-2 text-right">{model.requests.toLocaleString()}</td>
+                  <td className="py-2 text-right">{formatTokenCount(model.promptTokens)}</td>
+                  <td className="py-2 text-right">{formatTokenCount(model.responseTokens)}</td>
+                  <td className="py-2 text-right">{model.hasPricing ? formatCost(model.estimatedCost) : 'Unknown'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="bg-[#1d1e20] border border-[#333] rounded-lg p-4">
+        <h3 className="text-sm font-medium text-gray-300 mb-3">Most expensive conversations</h3>
+        {conversationUsage.length === 0 ? (
+          <p className="text-sm text-gray-500">No usage recorded yet.</p>
+        ) : (
+          <ul className="divide-y divide-[#333]">
+            {conversationUsage.map(usage => {
+              const conversation = conversations.find(conv => conv.id === usage.conversationId);
+
+              return (
+                <li key={usage.conversationId} className="flex items-center justify-between gap-4 py-2 text-sm">
+                  {conversation ? (
+                    <button
+                      onClick={() => openConversation(conversation.id)}
+                      className="truncate text-left text-gray-200 hover:text-white hover:underline"
+                    >
+                      {conversation.title}
+                    </button>
+                  ) : (
+                    <span className="truncate text-gray-500 italic">Deleted conversation</span>
+                  )}
+                  <span className="shrink-0 text-gray-400">
+                    {usage.requests} requests · {formatTokenCount(usage.totalTokens)} tokens · {formatCost(usage.estimatedCost)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default UsageDashboard;
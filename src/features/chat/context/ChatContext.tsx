@@ -1,40 +1,70 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { getDefaultModel } from '../../../shared/utils/geminiModels';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useMemo, useRef } from 'react';
+import { getDefaultModel, getFastModel } from '../../../shared/utils/geminiModels';
 import { useGemini } from '../../gemini/hooks/useGemini';
-import { SearchResult } from '../../gemini/types/gemini.types';
+import { useGeminiService } from '../../gemini/context/GeminiServiceContext';
+import { Attachment, GenerationSettings, SafetyThresholds, SearchResult, TokenCount, UsageRecord } from '../../gemini/types/gemini.types';
 import { ThinkingProcess } from '../../gemini/types/gemini.types';
-
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: number;
-  modelId?: string;
-  isDeepSearch?: boolean;
-  metadata?: {
-    thinking?: ThinkingProcess;
-  };
-}
-
-interface Conversation {
-  id: string;
-  title: string;
-  createdAt: number;
-  messages: Message[];
-  modelId: string;
-}
+import { ConversationTurn } from '../../gemini/api/types';
+import { BlockedResponseError, GeminiError, toGeminiError } from '../../gemini/services/errors';
+import { Message, Conversation, Persona, UsageEntry, Folder, ShareRecord } from '../types/chat.types';
+import { createConversationRepository, diffConversations, hasChanges } from '../storage';
+import { prepareImportedConversations } from '../utils/conversationImport';
+import { normalizeMessageTree, getMessagePath, findLatestLeaf } from '../utils/messageTree';
+import { BUILT_IN_PERSONAS, loadCustomPersonas, saveCustomPersonas } from '../utils/personas';
+import { addUsage, loadUsageLog, saveUsageLog } from '../utils/usage';
+import { SemanticMatch } from '../utils/historySearch';
+import { loadFolders, saveFolders } from '../utils/folders';
+import { loadShares, publishShare, saveShares, unpublishShare } from '../utils/sharing';
+import { normalizeTags } from '../utils/conversationGroups';
+import { SemanticIndexStatus, useSemanticIndex } from '../hooks/useSemanticIndex';
 
 interface ChatContextType {
   messages: Message[];
   isLoading: boolean;
-  sendMessage: (content: string) => void;
+  // Last failure of a Gemini call, or why the service could not start
+  error: GeminiError | null;
+  sendMessage: (content: string, attachments?: Attachment[]) => void;
+  editMessage: (messageId: string, content: string) => void;
+  regenerateMessage: (messageId: string, modelId: string) => void;
+  retryMessage: (messageId: string) => void;
+  switchBranch: (messageId: string) => void;
+  openMessage: (conversationId: string, messageId: string) => void;
+  stopGeneration: () => void;
+  countDraftTokens: (content: string, attachments?: Attachment[], signal?: AbortSignal) => Promise<TokenCount | null>;
   clearMessages: () => void;
   conversations: Conversation[];
   activeConversation: Conversation | null;
   setActiveConversation: (id: string | null) => void;
-  updateConversationTitle: (id: string, title: string) => void;
+  updateConversationTitle: (id: string, title: string, source?: 'user' | 'generated') => void;
+  generateConversationTitle: (id: string) => Promise<void>;
   startNewConversation: () => void;
   deleteConversation: (id: string) => void;
+  deleteConversations: (ids: string[]) => void;
+  importConversations: (imported: Conversation[]) => void;
+  setSystemInstruction: (instruction: string, personaId?: string) => void;
+  setGenerationSettings: (settings: GenerationSettings) => void;
+  setSafetyThresholds: (thresholds: SafetyThresholds) => void;
+  folders: Folder[];
+  createFolder: (name: string) => Folder;
+  renameFolder: (id: string, name: string) => void;
+  deleteFolder: (id: string) => void;
+  moveConversations: (ids: string[], folderId: string | null) => void;
+  setConversationTags: (id: string, tags: string[]) => void;
+  setConversationsPinned: (ids: string[], pinned: boolean) => void;
+  setConversationsArchived: (ids: string[], archived: boolean) => void;
+  shares: ShareRecord[];
+  shareConversation: (id: string) => Promise<ShareRecord>;
+  revokeShare: (shareId: string) => Promise<void>;
+  personas: Persona[];
+  savePersona: (persona: Omit<Persona, 'id'> & { id?: string }) => Persona;
+  deletePersona: (id: string) => void;
+  usageLog: UsageEntry[];
+  clearUsageLog: () => void;
+  semanticSearchEnabled: boolean;
+  setSemanticSearchEnabled: (enabled: boolean) => void;
+  semanticIndexStatus: SemanticIndexStatus;
+  searchHistorySemantically: (query: string, signal?: AbortSignal) => Promise<SemanticMatch[]>;
+  retrySemanticIndexing: () => void;
   suggestedQuestions: string[];
   selectedModel: string;
   setSelectedModel: (modelId: string) => void;
@@ -43,14 +73,49 @@ interface ChatContextType {
 const ChatContext = createContext<ChatContextType>({
   messages: [],
   isLoading: false,
+  error: null,
   sendMessage: () => {},
+  editMessage: () => {},
+  regenerateMessage: () => {},
+  retryMessage: () => {},
+  switchBranch: () => {},
+  openMessage: () => {},
+  stopGeneration: () => {},
+  countDraftTokens: async () => null,
   clearMessages: () => {},
   conversations: [],
   activeConversation: null,
   setActiveConversation: () => {},
   updateConversationTitle: () => {},
+  generateConversationTitle: async () => {},
   startNewConversation: () => {},
   deleteConversation: () => {},
+  deleteConversations: () => {},
+  importConversations: () => {},
+  setSystemInstruction: () => {},
+  setGenerationSettings: () => {},
+  setSafetyThresholds: () => {},
+  folders: [],
+  createFolder: (name) => ({ id: '', name, createdAt: 0 }),
+  renameFolder: () => {},
+  deleteFolder: () => {},
+  moveConversations: () => {},
+  setConversationTags: () => {},
+  setConversationsPinned: () => {},
+  setConversationsArchived: () => {},
+  shares: [],
+  shareConversation: async () => { throw new Error('ChatProvider is missing'); },
+  revokeShare: async () => {},
+  personas: BUILT_IN_PERSONAS,
+  savePersona: (persona) => ({ ...persona, id: '' }),
+  deletePersona: () => {},
+  usageLog: [],
+  clearUsageLog: () => {},
+  semanticSearchEnabled: false,
+  setSemanticSearchEnabled: () => {},
+  semanticIndexStatus: { indexedCount: 0, pendingCount: 0, isIndexing: false, error: null },
+  searchHistorySemantically: async () => [],
+  retrySemanticIndexing: () => {},
   suggestedQuestions: [],
   selectedModel: getDefaultModel().id,
   setSelectedModel: () => {}
@@ -74,23 +139,25 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     return title;
   };
   
-  // Now use the functions in state initialization and other places
-  const [conversations, setConversations] = useState<Conversation[]>(() => {
-    const saved = localStorage.getItem('conversations');
-    return saved ? JSON.parse(saved) : [
-      {
-        id: generateId(),
-        title: 'New Chat',
-        createdAt: Date.now(),
-        messages: [],
-        modelId: getDefaultModel().id
-      }
-    ];
+  const createEmptyConversation = (modelId: string): Conversation => ({
+    id: generateId(),
+    title: 'New Chat',
+    createdAt: Date.now(),
+    messages: [],
+    modelId
   });
   
+  // Conversations are loaded asynchronously from the conversation store
+  const [repository] = useState(createConversationRepository);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+  
+  // Last snapshot written to the store, used to compute incremental changes
+  const persistedConversationsRef = useRef<Conversation[]>([]);
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  
   const [activeConversationId, setActiveConversationId] = useState<string | null>(() => {
-    const saved = localStorage.getItem('activeConversationId');
-    return saved || conversations[0]?.id || null;
+    return localStorage.getItem('activeConversationId');
   });
   
   const [isLoading, setIsLoading] = useState(false);
@@ -102,13 +169,124 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   ]);
   
   const [selectedModel, setSelectedModel] = useState<string>(getDefaultModel().id);
+  // Whether the user picked a model, rather than starting from the default
+  const hasChosenModelRef = useRef(false);
+  
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>(loadCustomPersonas);
+  
+  const [usageLog, setUsageLog] = useState<UsageEntry[]>(loadUsageLog);
+  
+  const [folders, setFolders] = useState<Folder[]>(loadFolders);
+  const [shares, setShares] = useState<ShareRecord[]>(loadShares);
+  
+  // Semantic history search embeds every message, so it is opt-in
+  const [semanticSearchEnabled, setSemanticSearchEnabled] = useState<boolean>(() => 
+    localStorage.getItem('semanticSearchEnabled') === 'true'
+  );
+  
+  const { generateContentStream, generateCandidates, generateWithWebSearch, generateFollowUpQuestions, generateTitle, countTokens, error } = useGemini();
+  const { models } = useGeminiService();
+  
+  const semanticIndex = useSemanticIndex(conversations, semanticSearchEnabled && isHydrated);
+  
+  // Controller for the in-flight generation, used by stopGeneration
+  const abortControllerRef = useRef<AbortController | null>(null);
+  
+  // The default model comes from the static list until models are discovered, so move to the
+  // discovered default if the API no longer offers it. A model the user picked is left alone,
+  // and requests to it fail with a model-not-found error instead
+  useEffect(() => {
+    if (!hasChosenModelRef.current && !models.some(model => model.id === selectedModel)) {
+      setSelectedModel(getDefaultModel().id);
+    }
+  }, [models, selectedModel]);
+  
+  // Load conversations from the store once on mount
+  useEffect(() => {
+    repository.loadConversations()
+      .then(loaded => {
+        // A page reload interrupts any response that was still streaming
+        const restored = loaded.map(conv => normalizeMessageTree({
+          ...conv,
+          messages: conv.messages.map(msg => 
+            msg.status === 'streaming' ? { ...msg, status: 'complete' as const } : msg
+          )
+        }));
+        
+        persistedConversationsRef.current = loaded;
+        return restored;
+      })
+      .catch(error => {
+        console.error('Error loading conversations:', error);
+        return [] as Conversation[];
+      })
+      .then(restored => {
+        const initial = restored.length > 0 ? restored : [createEmptyConversation(getDefaultModel().id)];
+        
+        setConversations(initial);
+        setActiveConversationId(prev => 
+          prev && initial.some(conv => conv.id === prev) ? prev : initial[0].id
+        );
+        setIsHydrated(true);
+      });
+  }, [repository]);
+  
+  // Write changed conversations and messages to the store
+  // Writes are debounced so a streaming response is not saved on every chunk
+  const flushConversations = (next: Conversation[]) => {
+    const changes = diffConversations(persistedConversationsRef.current, next);
+    persistedConversationsRef.current = next;
+    
+    if (!hasChanges(changes)) return;
+    
+    writeQueueRef.current = writeQueueRef.current
+      .then(() => repository.applyChanges(changes))
+      .catch(error => console.error('Error saving conversations:', error));
+  };
+  
+  const latestConversationsRef = useRef(conversations);
+  latestConversationsRef.current = conversations;
+  
+  useEffect(() => {
+    if (!isHydrated) return;
+    
+    const timer = setTimeout(() => flushConversations(conversations), 500);
+    return () => clearTimeout(timer);
+  }, [conversations, isHydrated]);
+  
+  // Save any pending changes before the page is closed
+  useEffect(() => {
+    if (!isHydrated) return;
+    
+    const handlePageHide = () => flushConversations(latestConversationsRef.current);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [isHydrated]);
+  
+  // Save custom persona presets to localStorage
+  useEffect(() => {
+    saveCustomPersonas(customPersonas);
+  }, [customPersonas]);
   
-  const { generateContent, generateWithWebSearch } = useGemini();
+  // Save folders to localStorage
+  useEffect(() => {
+    saveFolders(folders);
+  }, [folders]);
   
-  // Save conversations to localStorage
+  // Save the share links created on this device, with their revoke tokens
   useEffect(() => {
-    localStorage.setItem('conversations', JSON.stringify(conversations));
-  }, [conversations]);
+    saveShares(shares);
+  }, [shares]);
+  
+  // Save the usage log to localStorage
+  useEffect(() => {
+    saveUsageLog(usageLog);
+  }, [usageLog]);
+  
+  // Save the semantic search preference to localStorage
+  useEffect(() => {
+    localStorage.setItem('semanticSearchEnabled', String(semanticSearchEnabled));
+  }, [semanticSearchEnabled]);
   
   // Save active conversation ID to localStorage
   useEffect(() => {
@@ -119,19 +297,32 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   
   const activeConversation = conversations.find(c => c.id === activeConversationId) || null;
   
+  // The thread currently shown: the path from the first message to the selected branch's leaf
+  // Memoized so effects that depend on it, like the draft token count, only rerun when the thread changes
+  const activeConversationMessages = activeConversation?.messages;
+  const activeLeafId = activeConversation?.currentLeafId ?? null;
+  const activeMessages = useMemo(
+    () => activeConversationMessages ? getMessagePath(activeConversationMessages, activeLeafId) : [],
+    [activeConversationMessages, activeLeafId]
+  );
+  
   const setActiveConversation = (id: string | null) => {
     setActiveConversationId(id);
   };
   
-  const updateConversationTitle = (id: string, title: string) => {
+  // Rename a conversation; a generated title never replaces one the user chose
+  const updateConversationTitle = (id: string, title: string, source: 'user' | 'generated' = 'user') => {
     setConversations(prev => 
       prev.map(conv => 
-        conv.id === id ? { ...conv, title } : conv
+        conv.id === id && !(source === 'generated' && conv.titleSource === 'user')
+          ? { ...conv, title, titleSource: source } 
+          : conv
       )
     );
   };
   
   const handleSetSelectedModel = (modelId: string) => {
+    hasChosenModelRef.current = true;
     setSelectedModel(modelId);
     
     // Update the active conversation's model
@@ -145,24 +336,19 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   };
   
   const startNewConversation = () => {
-    const newConversation: Conversation = {
-      id: generateId(),
-      title: 'New Chat',
-      createdAt: Date.now(),
-      messages: [],
-      modelId: selectedModel
-    };
+    const newConversation = createEmptyConversation(selectedModel);
     
     setConversations(prev => [newConversation, ...prev]);
     setActiveConversationId(newConversation.id);
   };
   
-  const deleteConversation = (id: string) => {
-    setConversations(prev => prev.filter(conv => conv.id !== id));
+  const deleteConversations = (ids: string[]) => {
+    const deleted = new Set(ids);
+    setConversations(prev => prev.filter(conv => !deleted.has(conv.id)));
     
     // If the active conversation is deleted, set the first available conversation as active
-    if (activeConversationId === id) {
-      const remainingConversations = conversations.filter(conv => conv.id !== id);
+    if (activeConversationId && deleted.has(activeConversationId)) {
+      const remainingConversations = conversations.filter(conv => !deleted.has(conv.id));
       if (remainingConversations.length > 0) {
         setActiveConversationId(remainingConversations[0].id);
       } else {
@@ -172,8 +358,239 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     }
   };
   
-  const sendMessage = async (content: string) => {
-    if (!activeConversationId || !content.trim()) return;
+  const deleteConversation = (id: string) => {
+    deleteConversations([id]);
+  };
+  
+  // Apply the same change to several conversations
+  const updateConversations = (ids: string[], patch: Partial<Conversation>) => {
+    const selected = new Set(ids);
+    setConversations(prev => 
+      prev.map(conv => 
+        selected.has(conv.id) ? { ...conv, ...patch } : conv
+      )
+    );
+  };
+  
+  // Name a conversation from the first exchange of its current thread with a fast model
+  // Asked for explicitly, so it replaces a title the user chose
+  const generateConversationTitle = async (id: string) => {
+    const conversation = conversations.find(conv => conv.id === id);
+    const thread = conversation ? getMessagePath(conversation.messages, conversation.currentLeafId) : [];
+    const question = thread.find(msg => msg.role === 'user');
+    const answer = thread.find(msg => msg.role === 'assistant' && msg.content.trim());
+    
+    if (!question || !answer) {
+      throw new Error('The conversation needs a reply before it can be named');
+    }
+    
+    const title = await generateTitle(
+      question.content || question.attachments?.[0]?.name || 'Attachment',
+      answer.content,
+      getFastModel().id,
+      { onUsage: (record) => recordUsage(id, answer.id, record) }
+    );
+    updateConversations([id], { title, titleSource: 'generated' });
+  };
+  
+  const createFolder = (name: string): Folder => {
+    const folder: Folder = { id: generateId(), name: name.trim(), createdAt: Date.now() };
+    setFolders(prev => [...prev, folder]);
+    return folder;
+  };
+  
+  const renameFolder = (id: string, name: string) => {
+    setFolders(prev => 
+      prev.map(folder => 
+        folder.id === id ? { ...folder, name: name.trim() } : folder
+      )
+    );
+  };
+  
+  // Delete a folder; its conversations are kept and moved out of it
+  const deleteFolder = (id: string) => {
+    setFolders(prev => prev.filter(folder => folder.id !== id));
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.folderId === id ? { ...conv, folderId: null } : conv
+      )
+    );
+  };
+  
+  const moveConversations = (ids: string[], folderId: string | null) => {
+    updateConversations(ids, { folderId });
+  };
+  
+  const setConversationTags = (id: string, tags: string[]) => {
+    updateConversations([id], { tags: normalizeTags(tags) });
+  };
+  
+  const setConversationsPinned = (ids: string[], pinned: boolean) => {
+    updateConversations(ids, { pinned });
+  };
+  
+  const setConversationsArchived = (ids: string[], archived: boolean) => {
+    updateConversations(ids, { archived });
+  };
+  
+  // Publish a read-only snapshot of a conversation's current thread
+  // Later messages are not added to the link; sharing again creates a new one
+  const shareConversation = async (id: string): Promise<ShareRecord> => {
+    const conversation = conversations.find(conv => conv.id === id);
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+    
+    const share = await publishShare(conversation);
+    setShares(prev => [share, ...prev]);
+    return share;
+  };
+  
+  const revokeShare = async (shareId: string) => {
+    const share = shares.find(item => item.id === shareId);
+    if (!share) return;
+    
+    await unpublishShare(share);
+    setShares(prev => prev.filter(item => item.id !== shareId));
+  };
+  
+  // Set the instructions sent as the system instruction for the active conversation
+  const setSystemInstruction = (instruction: string, personaId?: string) => {
+    if (!activeConversationId) return;
+    
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === activeConversationId 
+          ? { ...conv, systemInstruction: instruction.trim() || undefined, personaId } 
+          : conv
+      )
+    );
+  };
+  
+  // Set the sampling and output settings for the active conversation; empty settings restore the model defaults
+  const setGenerationSettings = (settings: GenerationSettings) => {
+    if (!activeConversationId) return;
+    
+    const isEmpty = Object.values(settings).every(value => 
+      value === undefined || (Array.isArray(value) && value.length === 0)
+    );
+    
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === activeConversationId 
+          ? { ...conv, generationSettings: isEmpty ? undefined : settings } 
+          : conv
+      )
+    );
+  };
+  
+  // Set the block threshold per harm category for the active conversation
+  const setSafetyThresholds = (thresholds: SafetyThresholds) => {
+    if (!activeConversationId) return;
+    
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === activeConversationId 
+          ? { ...conv, safetyThresholds: Object.keys(thresholds).length > 0 ? thresholds : undefined } 
+          : conv
+      )
+    );
+  };
+  
+  // Create or update a custom persona preset
+  const savePersona = (persona: Omit<Persona, 'id'> & { id?: string }): Persona => {
+    const saved: Persona = { ...persona, id: persona.id || generateId(), builtIn: false };
+    
+    setCustomPersonas(prev => 
+      prev.some(p => p.id === saved.id)
+        ? prev.map(p => p.id === saved.id ? saved : p)
+        : [...prev, saved]
+    );
+    
+    return saved;
+  };
+  
+  const deletePersona = (id: string) => {
+    setCustomPersonas(prev => prev.filter(p => p.id !== id));
+  };
+  
+  // Merge conversations from an imported archive, newest first
+  const importConversations = (imported: Conversation[]) => {
+    // Folders are not part of the archive, so conversations filed in unknown folders are unfiled
+    const folderIds = new Set(folders.map(folder => folder.id));
+    const prepared = imported.map(conv => 
+      conv.folderId && !folderIds.has(conv.folderId) ? { ...conv, folderId: null } : conv
+    );
+    
+    setConversations(prev => 
+      [...prepareImportedConversations(prev, prepared, generateId), ...prev]
+        .sort((a, b) => b.createdAt - a.createdAt)
+    );
+  };
+  
+  // Patch a single message in a conversation
+  const updateMessage = (conversationId: string, messageId: string, patch: Partial<Message>) => {
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === conversationId 
+          ? { 
+              ...conv, 
+              messages: conv.messages.map(msg => 
+                msg.id === messageId ? { ...msg, ...patch } : msg
+              ) 
+            } 
+          : conv
+      )
+    );
+  };
+  
+  // Record the usage of a model call in the usage log and in the totals of the message it was made for
+  const recordUsage = (conversationId: string, messageId: string, record: UsageRecord) => {
+    setUsageLog(prev => [...prev, { ...record, conversationId, messageId }]);
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === conversationId 
+          ? { 
+              ...conv, 
+              messages: conv.messages.map(msg => 
+                msg.id === messageId ? { ...msg, usage: addUsage(msg.usage, record) } : msg
+              ) 
+            } 
+          : conv
+      )
+    );
+  };
+  
+  const clearUsageLog = () => {
+    setUsageLog([]);
+  };
+  
+  // Convert a thread of messages into history turns sent to the model as context
+  const getConversationHistory = (thread: Message[]): ConversationTurn[] => {
+    return thread
+      .filter(msg => (msg.content.trim() || msg.attachments?.length) && msg.status !== 'streaming')
+      .map(msg => ({ role: msg.role, content: msg.content, attachments: msg.attachments }));
+  };
+  
+  // Count the tokens a draft would use with the active thread as history, for the context window indicator
+  const countDraftTokens = (content: string, attachments: Attachment[] = [], signal?: AbortSignal) => {
+    // Counted without the formatting instruction, as the message will be sent
+    return countTokens(content, selectedModel, false, {
+      signal,
+      history: getConversationHistory(activeMessages),
+      attachments,
+      systemInstruction: activeConversation?.systemInstruction
+    });
+  };
+  
+  // Add a user message replying to parentId and generate the assistant's reply
+  const submitMessage = async (content: string, attachments: Attachment[] | undefined, parentId: string | null) => {
+    if (!activeConversation || (!content.trim() && !attachments?.length)) return;
+    
+    const conversationId = activeConversation.id;
+    
+    // Only the thread leading to the new message is sent as history
+    const history = getConversationHistory(getMessagePath(activeConversation.messages, parentId));
     
     // Check if this is a DeepSearch query
     const isDeepSearch = content.toLowerCase().startsWith('/search ');
@@ -184,36 +601,89 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
       id: generateId(),
       role: 'user',
       content: cleanContent,
+      attachments,
       timestamp: Date.now(),
       modelId: selectedModel,
-      isDeepSearch
+      isDeepSearch,
+      parentId
     };
     
-    // Add user message to conversation
+    const assistantMessage = createPendingReply(userMessage, selectedModel);
+    
+    // Add user and assistant messages to conversation
     setConversations(prev => 
       prev.map(conv => 
-        conv.id === activeConversationId 
+        conv.id === conversationId 
           ? { 
               ...conv, 
-              messages: [...conv.messages, userMessage],
-              title: conv.messages.length === 0 ? getFirstMessageTitle(cleanContent) : conv.title
+              messages: [...conv.messages, userMessage, assistantMessage],
+              currentLeafId: assistantMessage.id,
+              title: conv.messages.length === 0 ? getFirstMessageTitle(cleanContent || attachments?.[0]?.name || 'Attachment') : conv.title
             } 
           : conv
       )
     );
     
+    await generateReply(conversationId, userMessage, assistantMessage, history);
+  };
+  
+  // Create the assistant message up front so the response can be streamed into it
+  const createPendingReply = (userMessage: Message, modelId: string): Message => ({
+    id: generateId(),
+    role: 'assistant',
+    content: '',
+    timestamp: Date.now(),
+    modelId,
+    isDeepSearch: userMessage.isDeepSearch,
+    status: 'streaming',
+    parentId: userMessage.id
+  });
+  
+  // Generate the reply to a user message into its pending assistant message
+  const generateReply = async (
+    conversationId: string, 
+    userMessage: Message, 
+    assistantMessage: Message, 
+    history: ConversationTurn[]
+  ) => {
+    const { content: cleanContent, attachments, isDeepSearch } = userMessage;
+    const modelId = assistantMessage.modelId || selectedModel;
+    const conversation = conversations.find(conv => conv.id === conversationId);
+    const systemInstruction = conversation?.systemInstruction;
+    const generationSettings = conversation?.generationSettings;
+    const safetyThresholds = conversation?.safetyThresholds;
+    
     // Start loading
     setIsLoading(true);
     
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+    const onUsage = (record: UsageRecord) => recordUsage(conversationId, assistantMessage.id, record);
+    const onThought = (thoughts: string) => updateMessage(conversationId, assistantMessage.id, { thoughts });
+    
     try {
       let responseText: string;
       let searchResults: SearchResult[] = [];
       let thinkingProcess: ThinkingProcess | undefined;
+      // Extra candidates, kept as variants of this response
+      let otherCandidates: string[] = [];
       
       // Generate response based on whether DeepSearch is enabled
       if (isDeepSearch) {
         // Use web search with enhanced functionality
-        const response = await generateWithWebSearch(cleanContent, selectedModel);
+        const response = await generateWithWebSearch(cleanContent, modelId, {
+          signal,
+          history,
+          attachments,
+          systemInstruction,
+          generationSettings,
+          safetyThresholds,
+          onUsage,
+          onThought,
+          // Show each stage, search round and source as the pipeline reaches it
+          onProgress: (thinking) => updateMessage(conversationId, assistantMessage.id, { metadata: { thinking } })
+        });
         responseText = response.text;
         searchResults = response.searchResults;
         thinkingProcess = response.thinkingProcess;
@@ -253,73 +723,215 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
             }
           }
         }
+      } else if ((generationSettings?.candidateCount ?? 1) > 1) {
+        // Multiple candidates cannot be streamed into one message, so generate them together
+        [responseText, ...otherCandidates] = await generateCandidates(
+          cleanContent,
+          modelId,
+          false,
+          { signal, history, attachments, systemInstruction, generationSettings, safetyThresholds, onUsage, onThought }
+        );
       } else {
-        // Use regular generation
-        responseText = await generateContent(cleanContent, selectedModel, false);
+        // Use regular generation, patching the assistant message as chunks arrive
+        responseText = await generateContentStream(
+          cleanContent,
+          modelId,
+          (text) => updateMessage(conversationId, assistantMessage.id, { content: text }),
+          false,
+          { signal, history, attachments, systemInstruction, generationSettings, safetyThresholds, onUsage, onThought }
+        );
       }
       
-      // Create assistant message
-      const assistantMessage: Message = {
-        id: generateId(),
-        role: 'assistant',
+      // Finalize assistant message
+      const completedAt = Date.now();
+      updateMessage(conversationId, assistantMessage.id, {
         content: responseText,
-        timestamp: Date.now(),
-        modelId: selectedModel,
-        isDeepSearch,
+        timestamp: completedAt,
+        status: 'complete',
         metadata: isDeepSearch ? {
           thinking: thinkingProcess
         } : undefined
-      };
+      });
       
-      // Add assistant message to conversation
-      setConversations(prev => 
-        prev.map(conv => 
-          conv.id === activeConversationId 
-            ? { ...conv, messages: [...conv.messages, assistantMessage] } 
-            : conv
-        )
-      );
+      if (otherCandidates.length > 0) {
+        const variants: Message[] = otherCandidates.map((content, index) => ({
+          ...assistantMessage,
+          id: generateId(),
+          content,
+          // Offset timestamps so the variants keep the order the model returned them in
+          timestamp: completedAt + index + 1,
+          status: 'complete'
+        }));
+        
+        setConversations(prev => 
+          prev.map(conv => 
+            conv.id === conversationId 
+              ? { ...conv, messages: [...conv.messages, ...variants] } 
+              : conv
+          )
+        );
+      }
       
-      // Generate new suggested questions
-      setSuggestedQuestions([
-        "Tell me more about " + cleanContent.split(' ').slice(0, 3).join(' '),
-        "How does " + cleanContent.split(' ').slice(0, 2).join(' ') + " compare to alternatives?",
-        "Can you provide examples of " + cleanContent.split(' ').slice(0, 3).join(' '),
-        "What are the limitations of " + cleanContent.split(' ').slice(0, 2).join(' ')
-      ]);
+      // Name a new conversation once its first reply is in, unless it already has a proper title
+      if (history.length === 0 && !conversation?.titleSource) {
+        generateTitle(cleanContent || attachments?.[0]?.name || 'Attachment', responseText, getFastModel().id, { onUsage })
+          .then(title => updateConversationTitle(conversationId, title, 'generated'))
+          .catch(titleError => console.error('Error generating a conversation title:', titleError));
+      }
+      
+      // Ask the model for follow-up questions in the background; the reply is already complete
+      generateFollowUpQuestions(cleanContent, responseText, modelId, {
+        informationGaps: thinkingProcess?.informationGaps,
+        subtopics: thinkingProcess?.subtopics
+      }, { onUsage }).then(suggestions => {
+        if (suggestions.length === 0) return;
+        
+        updateMessage(conversationId, assistantMessage.id, {
+          metadata: {
+            thinking: thinkingProcess ? { ...thinkingProcess, suggestions } : undefined,
+            suggestions
+          }
+        });
+        setSuggestedQuestions(suggestions);
+      });
     } catch (error) {
+      // Keep whatever was generated before the user pressed stop
+      if (signal.aborted) {
+        updateMessage(conversationId, assistantMessage.id, { status: 'stopped' });
+        return;
+      }
+      
+      // Show why the safety filters blocked the prompt or response, keeping any text that arrived first
+      if (error instanceof BlockedResponseError) {
+        updateMessage(conversationId, assistantMessage.id, {
+          timestamp: Date.now(),
+          status: 'blocked',
+          metadata: { blocked: error.blockInfo }
+        });
+        return;
+      }
+      
       console.error('Error generating response:', error);
       
-      // Create error message
-      const errorMessage: Message = {
-        id: generateId(),
-        role: 'assistant',
-        content: `I'm sorry, I encountered an error while processing your request. Please try again later.`,
+      // Mark the reply as failed so Chat can explain the error and offer a retry
+      updateMessage(conversationId, assistantMessage.id, {
         timestamp: Date.now(),
-        modelId: selectedModel
-      };
-      
-      // Add error message to conversation
-      setConversations(prev => 
-        prev.map(conv => 
-          conv.id === activeConversationId 
-            ? { ...conv, messages: [...conv.messages, errorMessage] } 
-            : conv
-        )
-      );
+        status: 'error',
+        metadata: { error: toGeminiError(error).toInfo() }
+      });
     } finally {
       // Stop loading
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
     }
   };
   
+  // Re-run the prompt behind an assistant message on a chosen model, keeping the result as another variant
+  const regenerateMessage = async (messageId: string, modelId: string) => {
+    if (!activeConversation || isLoading) return;
+    
+    const original = activeConversation.messages.find(msg => msg.id === messageId);
+    const userMessage = activeConversation.messages.find(msg => msg.id === original?.parentId);
+    if (!original || original.role !== 'assistant' || !userMessage) return;
+    
+    const conversationId = activeConversation.id;
+    const history = getConversationHistory(getMessagePath(activeConversation.messages, userMessage.parentId ?? null));
+    const variant = createPendingReply(userMessage, modelId);
+    
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === conversationId 
+          ? { ...conv, messages: [...conv.messages, variant], currentLeafId: variant.id } 
+          : conv
+      )
+    );
+    
+    await generateReply(conversationId, userMessage, variant, history);
+  };
+  
+  // Generate a failed reply again in place, on the same model
+  const retryMessage = async (messageId: string) => {
+    if (!activeConversation || isLoading) return;
+    
+    const failed = activeConversation.messages.find(msg => msg.id === messageId);
+    const userMessage = activeConversation.messages.find(msg => msg.id === failed?.parentId);
+    if (!failed || failed.role !== 'assistant' || !userMessage) return;
+    
+    const conversationId = activeConversation.id;
+    const history = getConversationHistory(getMessagePath(activeConversation.messages, userMessage.parentId ?? null));
+    const pending: Message = { 
+      ...createPendingReply(userMessage, failed.modelId || selectedModel), 
+      id: failed.id 
+    };
+    
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === conversationId 
+          ? { ...conv, messages: conv.messages.map(msg => msg.id === failed.id ? pending : msg) } 
+          : conv
+      )
+    );
+    
+    await generateReply(conversationId, userMessage, pending, history);
+  };
+  
+  const sendMessage = (content: string, attachments?: Attachment[]) => {
+    // Reply to the end of the thread that is currently shown
+    submitMessage(content, attachments, activeMessages[activeMessages.length - 1]?.id ?? null);
+  };
+  
+  // Send an edited copy of a user message as a new branch next to the original
+  const editMessage = (messageId: string, content: string) => {
+    const original = activeConversation?.messages.find(msg => msg.id === messageId);
+    if (!original || original.role !== 'user') return;
+    
+    submitMessage(
+      original.isDeepSearch ? `/search ${content}` : content,
+      original.attachments,
+      original.parentId ?? null
+    );
+  };
+  
+  // Show the branch containing a message, following its most recent replies
+  const switchBranch = (messageId: string) => {
+    if (!activeConversationId) return;
+    
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === activeConversationId 
+          ? { ...conv, currentLeafId: findLatestLeaf(conv.messages, messageId) } 
+          : conv
+      )
+    );
+  };
+  
+  // Open a conversation at a message, e.g. from a search result
+  // The current branch is kept when it already contains the message
+  const openMessage = (conversationId: string, messageId: string) => {
+    setActiveConversationId(conversationId);
+    setConversations(prev => 
+      prev.map(conv => {
+        if (conv.id !== conversationId || !conv.messages.some(msg => msg.id === messageId)) return conv;
+        
+        const onCurrentBranch = getMessagePath(conv.messages, conv.currentLeafId).some(msg => msg.id === messageId);
+        return onCurrentBranch ? conv : { ...conv, currentLeafId: findLatestLeaf(conv.messages, messageId) };
+      })
+    );
+  };
+  
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+  
   const clearMessages = () => {
     if (!activeConversationId) return;
     
     setConversations(prev => 
       prev.map(conv => 
         conv.id === activeConversationId 
-          ? { ...conv, messages: [] } 
+          ? { ...conv, messages: [], currentLeafId: null } 
           : conv
       )
     );
@@ -328,16 +940,51 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   return (
     <ChatContext.Provider
       value={{
-        messages: activeConversation?.messages || [],
+        messages: activeMessages,
         isLoading,
+        error,
         sendMessage,
+        editMessage,
+        regenerateMessage,
+        retryMessage,
+        switchBranch,
+        openMessage,
+        stopGeneration,
+        countDraftTokens,
         clearMessages,
         conversations,
         activeConversation,
         setActiveConversation,
         updateConversationTitle,
+        generateConversationTitle,
         startNewConversation,
         deleteConversation,
+        deleteConversations,
+        importConversations,
+        setSystemInstruction,
+        setGenerationSettings,
+        setSafetyThresholds,
+        folders,
+        createFolder,
+        renameFolder,
+        deleteFolder,
+        moveConversations,
+        setConversationTags,
+        setConversationsPinned,
+        setConversationsArchived,
+        shares,
+        shareConversation,
+        revokeShare,
+        personas: [...BUILT_IN_PERSONAS, ...customPersonas],
+        savePersona,
+        deletePersona,
+        usageLog,
+        clearUsageLog,
+        semanticSearchEnabled,
+        setSemanticSearchEnabled,
+        semanticIndexStatus: semanticIndex.status,
+        searchHistorySemantically: semanticIndex.search,
+        retrySemanticIndexing: semanticIndex.retryIndexing,
         suggestedQuestions,
         selectedModel,
         setSelectedModel: handleSetSelectedModel
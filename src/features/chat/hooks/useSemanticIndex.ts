@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import { useGeminiService } from '../../gemini/context/GeminiServiceContext';
+import { GeminiError, toGeminiError } from '../../gemini/services/errors';
+import { Conversation } from '../types/chat.types';
+import { createEmbeddingStore, EmbeddingRecord } from '../storage';
+import { planIndexUpdate, SemanticMatch } from '../utils/historySearch';
+
+// Wait for the history to settle before embedding new messages
+const INDEX_DELAY = 2000;
+
+// Messages embedded and saved per round, so progress survives a closed tab
+const INDEX_CHUNK_SIZE = 50;
+
+/**
+ * Progress of the semantic search index
+ */
+export interface SemanticIndexStatus {
+  indexedCount: number;
+  pendingCount: number;
+  isIndexing: boolean;
+  // Why indexing stopped; indexing resumes after retryIndexing
+  error: GeminiError | null;
+}
+
+interface UseSemanticIndexReturn {
+  status: SemanticIndexStatus;
+  /** Find the indexed messages closest in meaning to a query */
+  search: (query: string, signal?: AbortSignal) => Promise<SemanticMatch[]>;
+  retryIndexing: () => void;
+}
+
+/**
+ * Hook that keeps an embedding of every finished message, for semantic history search
+ * The index is saved locally and brought up to date incrementally while enabled: new and edited
+ * messages are embedded, and entries of deleted messages are dropped
+ * Only enable it once the conversations have loaded, or the whole index looks stale
+ */
+export const useSemanticIndex = (conversations: Conversation[], enabled: boolean): UseSemanticIndexReturn => {
+  const { geminiService } = useGeminiService();
+  const [store] = useState(createEmbeddingStore);
+  const indexRef = useRef<Map<string, EmbeddingRecord> | null>(null);
+  const [status, setStatus] = useState<SemanticIndexStatus>({
+    indexedCount: 0,
+    pendingCount: 0,
+    isIndexing: false,
+    error: null
+  });
+
+  const latestConversationsRef = useRef(conversations);
+  latestConversationsRef.current = conversations;
+
+  const isIndexingRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Load the saved index the first time it is needed
+   */
+  const loadIndex = async (): Promise<Map<string, EmbeddingRecord>> => {
+    if (!indexRef.current) {
+      const records = await store.loadEmbeddings().catch(error => {
+        console.error('Error loading the semantic search index:', error);
+        return [] as EmbeddingRecord[];
+      });
+      indexRef.current = indexRef.current || new Map(records.map(record => [record.messageId, record]));
+    }
+
+    return indexRef.current;
+  };
+
+  /**
+   * Embed pending messages chunk by chunk until the index matches the latest conversations
+   */
+  const runIndexing = async () => {
+    if (!geminiService || isIndexingRef.current) return;
+
+    isIndexingRef.current = true;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const model = geminiService.getEmbeddingModelId();
+
+    try {
+      const index = await loadIndex();
+
+      for (;;) {
+        const { pending, staleIds } = planIndexUpdate(index, latestConversationsRef.current, model);
+
+        if (staleIds.length > 0) {
+          staleIds.forEach(id => index.delete(id));
+          await store.applyChanges([], staleIds);
+        }
+
+        setStatus(prev => ({ ...prev, indexedCount: index.size, pendingCount: pending.length, isIndexing: pending.length > 0 }));
+        if (pending.length === 0) break;
+
+        const chunk = pending.slice(0, INDEX_CHUNK_SIZE);
+        const embeddings = await geminiService.generateEmbeddingsBatch(
+          chunk.map(item => item.text),
+          { purpose: 'document', signal: controller.signal }
+        );
+
+        const records: EmbeddingRecord[] = chunk.map((item, i) => ({
+          messageId: item.messageId,
+          conversationId: item.conversationId,
+          contentHash: item.contentHash,
+          model,
+          values: embeddings[i]
+        }));
+
+        records.forEach(record => index.set(record.messageId, record));
+        await store.applyChanges(records, []);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error updating the semantic search index:', error);
+        setStatus(prev => ({ ...prev, isIndexing: false, error: toGeminiError(error) }));
+      } else {
+        setStatus(prev => ({ ...prev, isIndexing: false }));
+      }
+    } finally {
+      isIndexingRef.current = false;
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  // Bring the index up to date once the history stops changing
+  // After a failure, indexing waits for retryIndexing so a bad key or quota is not hit on every message
+  useEffect(() => {
+    if (!enabled || !geminiService || status.error) return;
+
+    const timer = setTimeout(runIndexing, INDEX_DELAY);
+    return () => clearTimeout(timer);
+  }, [conversations, enabled, geminiService, status.error]);
+
+  // Stop embedding when semantic search is turned off
+  useEffect(() => {
+    if (!enabled) {
+      abortControllerRef.current?.abort();
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const search = async (query: string, signal?: AbortSignal): Promise<SemanticMatch[]> => {
+    if (!geminiService) {
+      throw new GeminiError('unknown', 'The Gemini service is still starting. Try again in a moment.', { retryable: true });
+    }
+
+    const index = await loadIndex();
+    const model = geminiService.getEmbeddingModelId();
+    const queryEmbedding = await geminiService.generateEmbeddings(query, { purpose: 'query', signal });
+
+    return Array.from(index.values())
+      .filter(record => record.model === model && record.values.length === queryEmbedding.length)
+      .map(record => ({
+        conversationId: record.conversationId,
+        messageId: record.messageId,
+        score: geminiService.calculateSimilarity(queryEmbedding, record.values)
+      }))
+      .sort((a, b) => b.score - a.score);
+  };
+
+  const retryIndexing = () => {
+    setStatus(prev => ({ ...prev, error: null }));
+  };
+
+  return { status, search, retryIndexing };
+};
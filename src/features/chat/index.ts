@@ -1,11 +1,25 @@
 // Export components
+export { default as ApiKeyManager } from './components/ApiKeyManager';
+export { default as ApiKeySetup } from './components/ApiKeySetup';
+export { default as ApiKeysPopup } from './components/ApiKeysPopup';
 export { default as AppLayout } from './components/AppLayout';
 export { default as Chat } from './components/Chat';
 export { default as ChatInput } from './components/ChatInput';
+export { default as ConversationSettings } from './components/ConversationSettings';
 export { default as Header } from './components/Header';
 export { default as HistoryPopup } from './components/HistoryPopup';
+export { default as SharedConversationView } from './components/SharedConversationView';
+export { default as SharePopup } from './components/SharePopup';
 export { default as ThinkingIndicator } from './components/ThinkingIndicator';
+export { default as UsageDashboard } from './components/UsageDashboard';
 export { default as WelcomeMessage } from './components/WelcomeMessage';
 
 // Export context
-export { ChatProvider, useChat } from './context/ChatContext'; 
\ No newline at end of file
+export { ChatProvider, useChat } from './context/ChatContext'; 
+
+// Export storage
+export { createConversationRepository, IndexedDBConversationRepository, LocalStorageConversationRepository, createEmbeddingStore } from './storage';
+export type { ConversationRepository, EmbeddingStore, EmbeddingRecord } from './storage';
+
+// Export types
+export type { Message, Conversation, Folder, Persona, UsageSummary, UsageEntry, SharedMessage, SharedConversation, ShareRecord } from './types/chat.types';
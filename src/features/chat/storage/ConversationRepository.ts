@@ -0,0 +1,121 @@
+import { Conversation, Message } from '../types/chat.types';
+
+/**
+ * Conversation record as stored, without its messages
+ */
+export type ConversationRecord = Omit<Conversation, 'messages'>;
+
+/**
+ * Message record as stored, keyed to its conversation and ordered by position
+ */
+export interface MessageRecord extends Message {
+  conversationId: string;
+  position: number;
+}
+
+/**
+ * Set of record writes and deletes applied to the store in a single transaction
+ */
+export interface ConversationChanges {
+  putConversations: ConversationRecord[];
+  deleteConversationIds: string[];
+  putMessages: MessageRecord[];
+  deleteMessageIds: string[];
+}
+
+/**
+ * Storage abstraction for conversation history
+ * Implementations persist conversations and messages as separate records so writes stay incremental
+ */
+export interface ConversationRepository {
+  /** Load all conversations with their messages, newest first */
+  loadConversations(): Promise<Conversation[]>;
+  /** Apply a set of changes computed with diffConversations */
+  applyChanges(changes: ConversationChanges): Promise<void>;
+}
+
+/**
+ * Check whether a set of changes contains anything to write
+ */
+export const hasChanges = (changes: ConversationChanges): boolean => {
+  return changes.putConversations.length > 0 ||
+    changes.deleteConversationIds.length > 0 ||
+    changes.putMessages.length > 0 ||
+    changes.deleteMessageIds.length > 0;
+};
+
+const toConversationRecord = ({ messages: _messages, ...record }: Conversation): ConversationRecord => record;
+
+const toMessageRecord = (message: Message, conversationId: string, position: number): MessageRecord => ({
+  ...message,
+  conversationId,
+  position
+});
+
+/**
+ * Compute the records that changed between two snapshots of the conversation list
+ * State updates are immutable, so a record only needs writing when its object identity
+ * (or, for messages, its position) changed
+ */
+export const diffConversations = (previous: Conversation[], next: Conversation[]): ConversationChanges => {
+  const changes: ConversationChanges = {
+    putConversations: [],
+    deleteConversationIds: [],
+    putMessages: [],
+    deleteMessageIds: []
+  };
+
+  const previousById = new Map(previous.map(conv => [conv.id, conv]));
+  const nextIds = new Set(next.map(conv => conv.id));
+
+  next.forEach(conversation => {
+    const before = previousById.get(conversation.id);
+    if (before === conversation) return;
+
+    // Conversation metadata (title, model, ...) is small, so rewrite it whenever the object changed
+    changes.putConversations.push(toConversationRecord(conversation));
+
+    const previousMessages = before?.messages || [];
+    if (previousMessages === conversation.messages) return;
+
+    conversation.messages.forEach((message, position) => {
+      if (previousMessages[position] !== message) {
+        changes.putMessages.push(toMessageRecord(message, conversation.id, position));
+      }
+    });
+
+    const messageIds = new Set(conversation.messages.map(msg => msg.id));
+    previousMessages
+      .filter(msg => !messageIds.has(msg.id))
+      .forEach(msg => changes.deleteMessageIds.push(msg.id));
+  });
+
+  // Messages of deleted conversations are removed by the repository
+  previous
+    .filter(conv => !nextIds.has(conv.id))
+    .forEach(conv => changes.deleteConversationIds.push(conv.id));
+
+  return changes;
+};
+
+/**
+ * Rebuild conversations from stored records
+ */
+export const assembleConversations = (conversations: ConversationRecord[], messages: MessageRecord[]): Conversation[] => {
+  const messagesByConversation = new Map<string, MessageRecord[]>();
+
+  messages.forEach(message => {
+    const list = messagesByConversation.get(message.conversationId) || [];
+    list.push(message);
+    messagesByConversation.set(message.conversationId, list);
+  });
+
+  return conversations
+    .map(conversation => ({
+      ...conversation,
+      messages: (messagesByConversation.get(conversation.id) || [])
+        .sort((a, b) => a.position - b.position)
+        .map(({ conversationId: _conversationId, position: _position, ...message }) => message)
+    }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
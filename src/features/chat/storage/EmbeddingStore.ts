@@ -0,0 +1,90 @@
+import { requestToPromise, transactionToPromise } from './indexedDb';
+
+const DB_NAME = 'gemini-chat-embeddings';
+const DB_VERSION = 1;
+const EMBEDDINGS_STORE = 'embeddings';
+
+/**
+ * Embedding of a message, as stored in the semantic search index
+ */
+export interface EmbeddingRecord {
+  messageId: string;
+  conversationId: string;
+  // Hash of the text that was embedded, so edited messages are embedded again
+  contentHash: string;
+  // Embedding model the values came from; embeddings from different models cannot be compared
+  model: string;
+  values: number[];
+}
+
+/**
+ * Storage for the message embeddings used by semantic history search
+ */
+export interface EmbeddingStore {
+  /** Load every stored embedding */
+  loadEmbeddings(): Promise<EmbeddingRecord[]>;
+  /** Write new or changed embeddings and delete the ones of removed messages in a single transaction */
+  applyChanges(put: EmbeddingRecord[], deleteMessageIds: string[]): Promise<void>;
+}
+
+/**
+ * Embedding store backed by its own IndexedDB database
+ * Kept apart from the conversation database so the index can be dropped without touching history
+ */
+export class IndexedDBEmbeddingStore implements EmbeddingStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const embeddings = request.result.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'messageId' });
+          embeddings.createIndex('conversationId', 'conversationId', { unique: false });
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('Embedding database upgrade is blocked by another open tab'));
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  async loadEmbeddings(): Promise<EmbeddingRecord[]> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readonly');
+    return requestToPromise(transaction.objectStore(EMBEDDINGS_STORE).getAll() as IDBRequest<EmbeddingRecord[]>);
+  }
+
+  async applyChanges(put: EmbeddingRecord[], deleteMessageIds: string[]): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const embeddings = transaction.objectStore(EMBEDDINGS_STORE);
+    const done = transactionToPromise(transaction);
+
+    put.forEach(record => embeddings.put(record));
+    deleteMessageIds.forEach(id => embeddings.delete(id));
+
+    await done;
+  }
+}
+
+/**
+ * Embedding store that only lives for the session
+ * Used when IndexedDB is unavailable, since the index is too large for localStorage
+ */
+export class MemoryEmbeddingStore implements EmbeddingStore {
+  private records = new Map<string, EmbeddingRecord>();
+
+  async loadEmbeddings(): Promise<EmbeddingRecord[]> {
+    return Array.from(this.records.values());
+  }
+
+  async applyChanges(put: EmbeddingRecord[], deleteMessageIds: string[]): Promise<void> {
+    put.forEach(record => this.records.set(record.messageId, record));
+    deleteMessageIds.forEach(id => this.records.delete(id));
+  }
+}
@@ -0,0 +1,132 @@
+import { Conversation } from '../types/chat.types';
+import {
+  ConversationRepository,
+  ConversationChanges,
+  ConversationRecord,
+  MessageRecord,
+  diffConversations,
+  assembleConversations
+} from './ConversationRepository';
+import { requestToPromise, transactionToPromise } from './indexedDb';
+
+const DB_NAME = 'gemini-chat';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const MESSAGES_STORE = 'messages';
+
+// Key of the single-blob history written by earlier versions of the app
+const LEGACY_STORAGE_KEY = 'conversations';
+
+/**
+ * Conversation repository backed by IndexedDB
+ * Conversations and messages are stored as separate records, and the legacy
+ * localStorage blob is migrated into the database the first time it opens
+ */
+export class IndexedDBConversationRepository implements ConversationRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Open the database, creating or upgrading the schema as needed
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+          this.upgradeSchema(request.result, event.oldVersion);
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('Conversation database upgrade is blocked by another open tab'));
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Apply each schema version in turn, starting after the version the database is at
+   * Add a new case here (and bump DB_VERSION) when the schema changes
+   */
+  private upgradeSchema(db: IDBDatabase, oldVersion: number) {
+    if (oldVersion < 1) {
+      db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+
+      const messages = db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+      messages.createIndex('conversationId', 'conversationId', { unique: false });
+    }
+  }
+
+  /**
+   * Move conversations from the legacy localStorage blob into the database
+   */
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return;
+
+    let legacyConversations: Conversation[];
+    try {
+      legacyConversations = JSON.parse(saved);
+    } catch (error) {
+      console.error('Discarding unreadable conversation history from localStorage:', error);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return;
+    }
+
+    await this.writeChanges(db, diffConversations([], legacyConversations));
+
+    // Only drop the legacy copy once the migration has committed
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log(`Migrated ${legacyConversations.length} conversations from localStorage to IndexedDB`);
+  }
+
+  /**
+   * Write a set of changes in a single transaction
+   */
+  private async writeChanges(db: IDBDatabase, changes: ConversationChanges): Promise<void> {
+    const transaction = db.transaction([CONVERSATIONS_STORE, MESSAGES_STORE], 'readwrite');
+    const conversations = transaction.objectStore(CONVERSATIONS_STORE);
+    const messages = transaction.objectStore(MESSAGES_STORE);
+    const done = transactionToPromise(transaction);
+
+    changes.putConversations.forEach(record => conversations.put(record));
+    changes.putMessages.forEach(record => messages.put(record));
+    changes.deleteMessageIds.forEach(id => messages.delete(id));
+
+    changes.deleteConversationIds.forEach(id => {
+      conversations.delete(id);
+
+      // Remove every message that belongs to the deleted conversation
+      const cursorRequest = messages.index('conversationId').openKeyCursor(IDBKeyRange.only(id));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          messages.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+    });
+
+    await done;
+  }
+
+  async loadConversations(): Promise<Conversation[]> {
+    const db = await this.openDatabase();
+    await this.migrateFromLocalStorage(db);
+
+    const transaction = db.transaction([CONVERSATIONS_STORE, MESSAGES_STORE], 'readonly');
+    const [conversations, messages] = await Promise.all([
+      requestToPromise(transaction.objectStore(CONVERSATIONS_STORE).getAll() as IDBRequest<ConversationRecord[]>),
+      requestToPromise(transaction.objectStore(MESSAGES_STORE).getAll() as IDBRequest<MessageRecord[]>)
+    ]);
+
+    return assembleConversations(conversations, messages);
+  }
+
+  async applyChanges(changes: ConversationChanges): Promise<void> {
+    const db = await this.openDatabase();
+    await this.writeChanges(db, changes);
+  }
+}
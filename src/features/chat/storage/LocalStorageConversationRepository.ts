@@ -0,0 +1,54 @@
+import { Conversation } from '../types/chat.types';
+import {
+  ConversationRepository,
+  ConversationChanges,
+  ConversationRecord,
+  MessageRecord,
+  assembleConversations
+} from './ConversationRepository';
+
+const STORAGE_KEY = 'conversations';
+
+/**
+ * Conversation repository backed by a single localStorage key
+ * Used as a fallback when IndexedDB is unavailable (e.g. some private browsing modes)
+ */
+export class LocalStorageConversationRepository implements ConversationRepository {
+  private conversations: ConversationRecord[] = [];
+  private messages: MessageRecord[] = [];
+
+  async loadConversations(): Promise<Conversation[]> {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const conversations: Conversation[] = saved ? JSON.parse(saved) : [];
+
+    this.conversations = conversations.map(({ messages: _messages, ...record }) => record);
+    this.messages = conversations.flatMap(conv =>
+      conv.messages.map((message, position) => ({ ...message, conversationId: conv.id, position }))
+    );
+
+    return conversations;
+  }
+
+  async applyChanges(changes: ConversationChanges): Promise<void> {
+    const deletedConversations = new Set(changes.deleteConversationIds);
+    const deletedMessages = new Set(changes.deleteMessageIds);
+    const putConversations = new Map(changes.putConversations.map(record => [record.id, record]));
+    const putMessages = new Map(changes.putMessages.map(record => [record.id, record]));
+
+    this.conversations = [
+      ...this.conversations
+        .filter(record => !deletedConversations.has(record.id) && !putConversations.has(record.id)),
+      ...putConversations.values()
+    ];
+    this.messages = [
+      ...this.messages.filter(record =>
+        !deletedConversations.has(record.conversationId) &&
+        !deletedMessages.has(record.id) &&
+        !putMessages.has(record.id)
+      ),
+      ...putMessages.values()
+    ];
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(assembleConversations(this.conversations, this.messages)));
+  }
+}
@@ -0,0 +1,35 @@
+import { ConversationRepository } from './ConversationRepository';
+import { IndexedDBConversationRepository } from './IndexedDBConversationRepository';
+import { LocalStorageConversationRepository } from './LocalStorageConversationRepository';
+import { EmbeddingStore, IndexedDBEmbeddingStore, MemoryEmbeddingStore } from './EmbeddingStore';
+
+export type { ConversationRepository, ConversationChanges } from './ConversationRepository';
+export { diffConversations, hasChanges } from './ConversationRepository';
+export { IndexedDBConversationRepository } from './IndexedDBConversationRepository';
+export { LocalStorageConversationRepository } from './LocalStorageConversationRepository';
+export type { EmbeddingStore, EmbeddingRecord } from './EmbeddingStore';
+export { IndexedDBEmbeddingStore, MemoryEmbeddingStore } from './EmbeddingStore';
+
+/**
+ * Create the conversation repository for the current browser
+ */
+export const createConversationRepository = (): ConversationRepository => {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB is not available, storing conversations in localStorage');
+    return new LocalStorageConversationRepository();
+  }
+
+  return new IndexedDBConversationRepository();
+};
+
+/**
+ * Create the store for the semantic search index
+ */
+export const createEmbeddingStore = (): EmbeddingStore => {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB is not available, the semantic search index will not be saved');
+    return new MemoryEmbeddingStore();
+  }
+
+  return new IndexedDBEmbeddingStore();
+};
@@ -0,0 +1,143 @@
+import { Attachment, BlockedResponseInfo, Citation, GeminiErrorInfo, GenerationSettings, SafetyThresholds, SearchResult, ThinkingProcess, UsageRecord } from '../../gemini/types/gemini.types';
+
+/**
+ * Chat message type definition
+ */
+export interface Message {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  attachments?: Attachment[];
+  timestamp: number;
+  modelId?: string;
+  isDeepSearch?: boolean;
+  status?: 'streaming' | 'complete' | 'stopped' | 'blocked' | 'error';
+  // Message this one replies to; null for the first message of a conversation
+  parentId?: string | null;
+  // Reasoning returned by a thinking model, kept apart from the answer
+  thoughts?: string;
+  // Tokens, latency and cost of every model call made for this message
+  usage?: UsageSummary;
+  metadata?: {
+    thinking?: ThinkingProcess;
+    // Follow-up questions suggested by the model after the response completed
+    suggestions?: string[];
+    // Why the prompt or response was blocked, when status is 'blocked'
+    blocked?: BlockedResponseInfo;
+    // Why generating the reply failed, when status is 'error'
+    error?: GeminiErrorInfo;
+  };
+}
+
+/**
+ * Conversation type definition
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  // Where the title came from: unset for the placeholder taken from the first message,
+  // 'generated' when the model named the conversation, 'user' once renamed by hand
+  titleSource?: 'generated' | 'user';
+  createdAt: number;
+  // Every message of every branch; the visible thread is the path to currentLeafId
+  messages: Message[];
+  currentLeafId?: string | null;
+  modelId: string;
+  // Instructions sent as the system instruction with every request, and the preset they came from
+  systemInstruction?: string;
+  personaId?: string;
+  // Sampling and output settings for this conversation; unset means the model defaults
+  generationSettings?: GenerationSettings;
+  // Block thresholds per harm category; unset categories use the default threshold
+  safetyThresholds?: SafetyThresholds;
+  // Folder the conversation is filed in; unset or null when it is not in a folder
+  folderId?: string | null;
+  // Free-form labels for finding and grouping conversations
+  tags?: string[];
+  // Pinned conversations are listed first
+  pinned?: boolean;
+  // Archived conversations are hidden from the history unless asked for
+  archived?: boolean;
+}
+
+/**
+ * Folder (project) that conversations can be filed in
+ */
+export interface Folder {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+/**
+ * Named system instruction preset
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  instruction: string;
+  builtIn?: boolean;
+}
+
+/**
+ * Totals of the model calls made for a message
+ */
+export interface UsageSummary {
+  requests: number;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  // Estimated cost in US dollars; calls to models without known pricing are not included
+  estimatedCost: number;
+}
+
+/**
+ * Usage of a model call, with the conversation and message it was made for
+ */
+export interface UsageEntry extends UsageRecord {
+  conversationId?: string;
+  messageId?: string;
+}
+
+/**
+ * Message as captured in a shared conversation snapshot
+ */
+export interface SharedMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  modelId?: string;
+  // Kept with the snapshot, since viewers may not have the model in their list
+  modelName?: string;
+  isDeepSearch?: boolean;
+  // Attachments are not shared, only their names
+  attachmentNames?: string[];
+  citations?: Citation[];
+  // Web pages a DeepSearch answer was based on
+  sources?: Array<Pick<SearchResult, 'title' | 'url' | 'snippet' | 'source' | 'favicon'>>;
+}
+
+/**
+ * Read-only snapshot of a conversation, as served at its share link
+ */
+export interface SharedConversation {
+  id: string;
+  sharedAt: string;
+  title: string;
+  createdAt: number;
+  messages: SharedMessage[];
+}
+
+/**
+ * Share link the user created, with the token needed to revoke it
+ */
+export interface ShareRecord {
+  id: string;
+  conversationId: string;
+  title: string;
+  sharedAt: string;
+  revokeToken: string;
+}
@@ -0,0 +1,263 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import MessageRenderer from '../../../shared/components/MessageRenderer';
+import { findModelById } from '../../../shared/utils/geminiModels';
+import { isWebUrl } from '../../../shared/utils/urls';
+import { Conversation, Message } from '../types/chat.types';
+import { getMessagePath, normalizeMessageTree } from './messageTree';
+
+/**
+ * Identifier and version written into JSON archives, checked on import
+ */
+export const ARCHIVE_FORMAT = 'gemini-chat-archive';
+export const ARCHIVE_VERSION = 1;
+
+/**
+ * Lossless JSON archive of one or more conversations
+ */
+export interface ConversationArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversations: Conversation[];
+}
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html'
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html'
+};
+
+const getModelName = (modelId?: string): string => {
+  if (!modelId) return 'Unknown model';
+  return findModelById(modelId)?.name || modelId;
+};
+
+const getAuthorLabel = (message: Message): string => {
+  return message.role === 'user' ? 'You' : `Gemini AI (${getModelName(message.modelId)})`;
+};
+
+/**
+ * Export a message as markdown, turning citation markers into footnotes
+ * Footnote labels are prefixed with the message number so they stay unique across the document
+ */
+const messageToMarkdown = (message: Message, messageNumber: number): string => {
+  const citations = message.metadata?.thinking?.citations || [];
+  const usedCitations = new Set<number>();
+
+  let content = message.content;
+  if (citations.length > 0) {
+    content = content.replace(/\[(\d+)\](?!\()/g, (match, citationNumber) => {
+      const citationId = parseInt(citationNumber, 10);
+      if (!citations.some(c => c.id === citationId)) return match;
+
+      usedCitations.add(citationId);
+      return `[^${messageNumber}-${citationId}]`;
+    });
+  }
+
+  const lines = [`### ${getAuthorLabel(message)}`, ''];
+
+  if (message.isDeepSearch && message.role === 'user') {
+    lines.push('_DeepSearch query_', '');
+  }
+
+  if (message.attachments?.length) {
+    lines.push(`_Attachments: ${message.attachments.map(a => a.name).join(', ')}_`, '');
+  }
+
+  lines.push(content);
+
+  if (usedCitations.size > 0) {
+    lines.push('');
+    citations
+      .filter(citation => usedCitations.has(citation.id))
+      .forEach(citation => {
+        // Only web addresses are linked; an imported archive could hold script URLs
+        const reference = isWebUrl(citation.url) ? `[${citation.title}](${citation.url})` : citation.title;
+        lines.push(`[^${messageNumber}-${citation.id}]: ${reference}`);
+      });
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Get the thread currently shown for a conversation; other branches are only kept in JSON archives
+ */
+const getExportedMessages = (conversation: Conversation): Message[] => {
+  const { messages, currentLeafId } = normalizeMessageTree(conversation);
+
+  return getMessagePath(messages, currentLeafId)
+    .filter(message => message.content.trim() || message.attachments?.length);
+};
+
+/**
+ * Export a conversation as markdown
+ */
+export const conversationToMarkdown = (conversation: Conversation): string => {
+  const header = [
+    `# ${conversation.title}`,
+    '',
+    `_${new Date(conversation.createdAt).toLocaleString()} · ${getModelName(conversation.modelId)}_`
+  ].join('\n');
+
+  const messages = getExportedMessages(conversation)
+    .map((message, index) => messageToMarkdown(message, index + 1));
+
+  return [header, ...messages].join('\n\n---\n\n') + '\n';
+};
+
+/**
+ * Export conversations as a lossless JSON archive, including thinking process metadata and model IDs
+ */
+export const conversationsToJson = (conversations: Conversation[]): string => {
+  const archive: ConversationArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations
+  };
+
+  return JSON.stringify(archive, null, 2);
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Minimal stand-in for the app's Tailwind theme so exported pages read like the chat
+const HTML_STYLES = `
+  body { margin: 0; background: #1d1e20; color: #e5e7eb; font-family: system-ui, -apple-system, sans-serif; line-height: 1.6; }
+  main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+  h1 { color: #fff; margin-bottom: 0.25rem; }
+  .meta { color: #9ca3af; font-size: 0.875rem; margin-bottom: 2rem; }
+  .message { border-top: 1px solid #333; padding: 1.25rem 0; }
+  .author { color: #fff; font-weight: 600; margin-bottom: 0.5rem; }
+  .message--user .body { color: #e5e7eb; white-space: pre-wrap; }
+  .attachments { color: #9ca3af; font-size: 0.875rem; margin-bottom: 0.5rem; }
+  .attachments img { max-width: 8rem; max-height: 8rem; border-radius: 0.375rem; margin-right: 0.5rem; }
+  a { color: #60a5fa; }
+  pre { background: #252525; padding: 1rem; border-radius: 0.5rem; overflow-x: auto; }
+  code { font-family: ui-monospace, monospace; font-size: 0.875rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #333; padding: 0.5rem 0.75rem; text-align: left; }
+  blockquote { border-left: 3px solid #333; margin: 1rem 0; padding-left: 1rem; color: #9ca3af; }
+  .sources { margin-top: 1rem; font-size: 0.875rem; }
+  .sources li { margin-bottom: 0.25rem; }
+`;
+
+const messageToHtml = (message: Message): string => {
+  const citations = message.metadata?.thinking?.citations || [];
+
+  const attachments = message.attachments?.length
+    ? `<div class="attachments">${message.attachments.map(attachment =>
+        attachment.mimeType.startsWith('image/')
+          ? `<img src="data:${escapeHtml(attachment.mimeType)};base64,${escapeHtml(attachment.data)}" alt="${escapeHtml(attachment.name)}">`
+          : `<span>${escapeHtml(attachment.name)}</span>`
+      ).join(' ')}</div>`
+    : '';
+
+  // Assistant messages go through the same renderer as the chat, without raw HTML, which would run
+  // when the file is opened; answers can repeat web page text and archives can be edited by hand
+  const body = message.role === 'user'
+    ? escapeHtml(message.content)
+    : renderToStaticMarkup(createElement(MessageRenderer, { content: message.content, citations, allowHtml: false }));
+
+  const sources = citations.length > 0
+    ? `<ol class="sources">${citations.map(citation =>
+        `<li>${isWebUrl(citation.url)
+          ? `<a href="${escapeHtml(citation.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(citation.title)}</a>`
+          : escapeHtml(citation.title)} <span class="meta">${escapeHtml(citation.source)}</span></li>`
+      ).join('')}</ol>`
+    : '';
+
+  return `<section class="message message--${message.role}">
+  <div class="author">${escapeHtml(getAuthorLabel(message))}</div>
+  ${attachments}
+  <div class="body">${body}</div>
+  ${sources}
+</section>`;
+};
+
+const conversationToHtmlSection = (conversation: Conversation): string => {
+  const messages = getExportedMessages(conversation)
+    .map(messageToHtml)
+    .join('\n');
+
+  return `<article>
+  <h1>${escapeHtml(conversation.title)}</h1>
+  <div class="meta">${escapeHtml(new Date(conversation.createdAt).toLocaleString())} · ${escapeHtml(getModelName(conversation.modelId))}</div>
+  ${messages}
+</article>`;
+};
+
+/**
+ * Export conversations as a standalone HTML page
+ */
+export const conversationsToHtml = (conversations: Conversation[], title: string): string => {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+${conversations.map(conversationToHtmlSection).join('\n')}
+</main>
+</body>
+</html>
+`;
+};
+
+/**
+ * Turn a title into a safe file name
+ */
+const toFileName = (title: string): string => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60);
+  return slug || 'conversation';
+};
+
+/**
+ * Export one or more conversations in the given format and download the file
+ */
+export const exportConversations = (conversations: Conversation[], format: ExportFormat) => {
+  if (conversations.length === 0) return;
+
+  const title = conversations.length === 1 ? conversations[0].title : 'Gemini conversations';
+
+  let content: string;
+  switch (format) {
+    case 'markdown':
+      content = conversations.map(conversationToMarkdown).join('\n\n');
+      break;
+    case 'html':
+      content = conversationsToHtml(conversations, title);
+      break;
+    default:
+      content = conversationsToJson(conversations);
+  }
+
+  const blob = new Blob([content], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${toFileName(title)}.${FILE_EXTENSIONS[format]}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
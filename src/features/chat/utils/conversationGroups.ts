@@ -0,0 +1,147 @@
+import { Conversation, Folder } from '../types/chat.types';
+
+/**
+ * How the conversation history is grouped
+ */
+export type GroupBy = 'date' | 'folder' | 'tag';
+
+/**
+ * Heading in the conversation history and the conversations under it
+ */
+export interface ConversationGroup {
+  id: string;
+  label: string;
+  conversations: Conversation[];
+  // Folder the group shows, when grouping by folder; null for conversations outside any folder
+  folderId?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Clean up tags typed by the user: trimmed, without blanks, and without case-insensitive duplicates
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+
+  return tags
+    .map(tag => tag.trim().replace(/\s+/g, ' '))
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/**
+ * When a conversation was last active: its latest message, or its creation for an empty one
+ */
+export const getLastActivity = (conversation: Conversation): number => {
+  return conversation.messages.reduce((latest, message) => Math.max(latest, message.timestamp), conversation.createdAt);
+};
+
+/**
+ * Pinned conversations first, then the most recently active
+ */
+const compareConversations = (a: Conversation, b: Conversation): number => {
+  return Number(!!b.pinned) - Number(!!a.pinned) || getLastActivity(b) - getLastActivity(a);
+};
+
+const groupByDate = (conversations: Conversation[], now: number): ConversationGroup[] => {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  const today = startOfToday.getTime();
+  const weekAgo = today - 6 * DAY_MS;
+
+  const groups: ConversationGroup[] = [
+    { id: 'pinned', label: 'Pinned', conversations: [] },
+    { id: 'today', label: 'Today', conversations: [] },
+    { id: 'week', label: 'This week', conversations: [] },
+    { id: 'older', label: 'Older', conversations: [] }
+  ];
+
+  conversations.forEach(conversation => {
+    const lastActivity = getLastActivity(conversation);
+    const group = conversation.pinned
+      ? groups[0]
+      : lastActivity >= today
+        ? groups[1]
+        : lastActivity >= weekAgo
+          ? groups[2]
+          : groups[3];
+    group.conversations.push(conversation);
+  });
+
+  return groups.filter(group => group.conversations.length > 0);
+};
+
+const groupByFolder = (conversations: Conversation[], folders: Folder[]): ConversationGroup[] => {
+  const folderIds = new Set(folders.map(folder => folder.id));
+
+  // Empty folders are listed too, so they can be renamed or deleted
+  const groups: ConversationGroup[] = [...folders]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(folder => ({
+      id: `folder-${folder.id}`,
+      label: folder.name,
+      folderId: folder.id,
+      conversations: conversations.filter(conv => conv.folderId === folder.id)
+    }));
+
+  const unfiled = conversations.filter(conv => !conv.folderId || !folderIds.has(conv.folderId));
+  if (unfiled.length > 0) {
+    groups.push({ id: 'no-folder', label: 'No folder', folderId: null, conversations: unfiled });
+  }
+
+  return groups;
+};
+
+const groupByTag = (conversations: Conversation[]): ConversationGroup[] => {
+  const byTag = new Map<string, ConversationGroup>();
+  const untagged: Conversation[] = [];
+
+  conversations.forEach(conversation => {
+    if (!conversation.tags?.length) {
+      untagged.push(conversation);
+      return;
+    }
+
+    // A conversation with several tags is listed under each of them
+    conversation.tags.forEach(tag => {
+      const key = tag.toLowerCase();
+      const group = byTag.get(key) || { id: `tag-${key}`, label: `#${tag}`, conversations: [] };
+      group.conversations.push(conversation);
+      byTag.set(key, group);
+    });
+  });
+
+  const groups = Array.from(byTag.values()).sort((a, b) => a.label.localeCompare(b.label));
+  if (untagged.length > 0) {
+    groups.push({ id: 'untagged', label: 'Untagged', conversations: untagged });
+  }
+
+  return groups;
+};
+
+/**
+ * Group conversations for the history, with pinned and recently active conversations first in each group
+ * Grouping by date puts pinned conversations in a group of their own
+ */
+export const groupConversations = (
+  conversations: Conversation[],
+  groupBy: GroupBy,
+  folders: Folder[],
+  now: number = Date.now()
+): ConversationGroup[] => {
+  const sorted = [...conversations].sort(compareConversations);
+
+  switch (groupBy) {
+    case 'folder':
+      return groupByFolder(sorted, folders);
+    case 'tag':
+      return groupByTag(sorted);
+    default:
+      return groupByDate(sorted, now);
+  }
+};
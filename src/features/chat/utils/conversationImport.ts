@@ -0,0 +1,145 @@
+import { Conversation, Message } from '../types/chat.types';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION } from './conversationExport';
+import { normalizeMessageTree } from './messageTree';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Validate a single message from an archive
+ */
+const validateMessage = (value: unknown, path: string): Message => {
+  if (!isRecord(value)) {
+    throw new Error(`${path} is not an object`);
+  }
+
+  if (typeof value.id !== 'string' || !value.id) {
+    throw new Error(`${path} is missing an id`);
+  }
+
+  if (value.role !== 'user' && value.role !== 'assistant') {
+    throw new Error(`${path} has an invalid role`);
+  }
+
+  if (typeof value.content !== 'string') {
+    throw new Error(`${path} is missing its content`);
+  }
+
+  if (typeof value.timestamp !== 'number') {
+    throw new Error(`${path} is missing a timestamp`);
+  }
+
+  if (value.attachments !== undefined && !Array.isArray(value.attachments)) {
+    throw new Error(`${path} has invalid attachments`);
+  }
+
+  return value as unknown as Message;
+};
+
+/**
+ * Validate a single conversation from an archive
+ */
+const validateConversation = (value: unknown, path: string): Conversation => {
+  if (!isRecord(value)) {
+    throw new Error(`${path} is not an object`);
+  }
+
+  if (typeof value.id !== 'string' || !value.id) {
+    throw new Error(`${path} is missing an id`);
+  }
+
+  if (typeof value.title !== 'string') {
+    throw new Error(`${path} is missing a title`);
+  }
+
+  if (typeof value.createdAt !== 'number') {
+    throw new Error(`${path} is missing its creation date`);
+  }
+
+  if (typeof value.modelId !== 'string') {
+    throw new Error(`${path} is missing a model ID`);
+  }
+
+  if (!Array.isArray(value.messages)) {
+    throw new Error(`${path} is missing its messages`);
+  }
+
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || value.tags.some(tag => typeof tag !== 'string'))) {
+    throw new Error(`${path} has invalid tags`);
+  }
+
+  return {
+    ...(value as unknown as Conversation),
+    messages: value.messages.map((message, index) => validateMessage(message, `${path}, message ${index + 1}`))
+  };
+};
+
+/**
+ * Parse and validate a JSON conversation archive
+ * @throws Error describing the first problem found
+ */
+export const parseConversationArchive = (json: string): Conversation[] => {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isRecord(archive) || archive.format !== ARCHIVE_FORMAT) {
+    throw new Error('The file is not a conversation archive');
+  }
+
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version ${String(archive.version)}`);
+  }
+
+  if (!Array.isArray(archive.conversations)) {
+    throw new Error('The archive does not contain any conversations');
+  }
+
+  return archive.conversations.map((conversation, index) => validateConversation(conversation, `Conversation ${index + 1}`));
+};
+
+/**
+ * Prepare imported conversations for merging into the existing ones
+ * Conversation and message IDs that already exist are replaced with fresh ones,
+ * so importing the same archive twice produces copies instead of overwriting
+ */
+export const prepareImportedConversations = (
+  existing: Conversation[],
+  imported: Conversation[],
+  generateId: () => string
+): Conversation[] => {
+  const usedConversationIds = new Set(existing.map(conv => conv.id));
+  const usedMessageIds = new Set(existing.flatMap(conv => conv.messages.map(msg => msg.id)));
+
+  const uniqueId = (id: string, used: Set<string>): string => {
+    let nextId = id;
+    while (used.has(nextId)) {
+      nextId = generateId();
+    }
+    used.add(nextId);
+    return nextId;
+  };
+
+  return imported.map(normalizeMessageTree).map(conversation => {
+    // Branch links must follow any message that was given a new ID
+    const messageIds = new Map(conversation.messages.map(message => [message.id, uniqueId(message.id, usedMessageIds)]));
+    const remap = (id: string | null | undefined) => (id ? messageIds.get(id) ?? null : null);
+
+    return {
+      ...conversation,
+      id: uniqueId(conversation.id, usedConversationIds),
+      currentLeafId: remap(conversation.currentLeafId),
+      messages: conversation.messages.map(message => ({
+        ...message,
+        id: messageIds.get(message.id) as string,
+        parentId: remap(message.parentId),
+        // An archived response cannot still be streaming
+        status: message.status === 'streaming' ? 'complete' : message.status
+      }))
+    };
+  });
+};
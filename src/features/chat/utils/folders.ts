@@ -0,0 +1,23 @@
+import { Folder } from '../types/chat.types';
+
+const STORAGE_KEY = 'folders';
+
+/**
+ * Load the folders conversations can be filed in
+ */
+export const loadFolders = (): Folder[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading folders:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the folders conversations can be filed in
+ */
+export const saveFolders = (folders: Folder[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(folders));
+};
@@ -0,0 +1,284 @@
+import { Conversation, Message } from '../types/chat.types';
+import { EmbeddingRecord } from '../storage';
+
+// Characters of message text shown around a match
+const SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT_BEFORE = 40;
+
+// Message snippets shown per conversation in the results
+const MAX_SNIPPETS = 3;
+
+// Characters of a message that are embedded; the start of a long message is enough to find it
+export const EMBEDDING_TEXT_LIMIT = 8000;
+
+// Messages scoring below this are not considered related to the query
+const MIN_SIMILARITY = 0.3;
+
+/**
+ * Start and end offsets of a highlighted range of text
+ */
+export type HighlightRange = [number, number];
+
+/**
+ * Excerpt of a message that matched a search
+ */
+export interface SearchSnippet {
+  messageId: string;
+  role: Message['role'];
+  text: string;
+  highlights: HighlightRange[];
+  // Cosine similarity to the query, for semantic matches
+  score?: number;
+}
+
+/**
+ * Conversation that matched a search, with the message excerpts that matched
+ */
+export interface ConversationSearchResult {
+  conversation: Conversation;
+  titleHighlights: HighlightRange[];
+  snippets: SearchSnippet[];
+  // Number of messages that matched, including ones without a snippet
+  matchCount: number;
+  // Best similarity of any message, for semantic matches
+  score?: number;
+}
+
+/**
+ * Message that is semantically close to a query
+ */
+export interface SemanticMatch {
+  conversationId: string;
+  messageId: string;
+  score: number;
+}
+
+/**
+ * Split a query into the lowercase terms that must all be found
+ */
+export const getSearchTerms = (query: string): string[] => {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+};
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Find every occurrence of the terms in a text, merging overlapping ranges
+ */
+export const findHighlights = (text: string, terms: string[]): HighlightRange[] => {
+  const lower = text.toLowerCase();
+  const ranges: HighlightRange[] = [];
+
+  terms.forEach(term => {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  });
+
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<HighlightRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+      return merged;
+    }, []);
+};
+
+/**
+ * Cut a window of text around an offset, on word boundaries where possible
+ */
+const excerpt = (text: string, matchIndex: number): string => {
+  if (text.length <= SNIPPET_LENGTH) {
+    return text;
+  }
+
+  let start = Math.max(0, matchIndex - SNIPPET_CONTEXT_BEFORE);
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, end - SNIPPET_LENGTH);
+
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < matchIndex) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > matchIndex) end = space;
+  }
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Build the excerpt of a message shown in the results, with the terms highlighted
+ */
+const buildSnippet = (message: Message, text: string, terms: string[]): SearchSnippet => {
+  const firstMatch = findHighlights(text, terms)[0];
+  const snippetText = excerpt(text, firstMatch ? firstMatch[0] : 0);
+
+  return {
+    messageId: message.id,
+    role: message.role,
+    text: snippetText,
+    highlights: findHighlights(snippetText, terms)
+  };
+};
+
+/**
+ * Search the titles and message contents of conversations
+ * A conversation matches when every term of the query appears in its title or messages;
+ * conversations whose title matches come first, then the ones with the most matching messages
+ */
+export const searchConversations = (conversations: Conversation[], query: string): ConversationSearchResult[] => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const results: ConversationSearchResult[] = [];
+
+  conversations.forEach(conversation => {
+    const title = conversation.title.toLowerCase();
+    const found = new Set(terms.filter(term => title.includes(term)));
+
+    const matches = conversation.messages
+      .map(message => {
+        const text = normalizeWhitespace(message.content);
+        const lower = text.toLowerCase();
+        const matchedTerms = terms.filter(term => lower.includes(term));
+        return { message, text, matchedTerms };
+      })
+      .filter(match => match.matchedTerms.length > 0);
+
+    matches.forEach(match => match.matchedTerms.forEach(term => found.add(term)));
+    if (found.size < terms.length) return;
+
+    results.push({
+      conversation,
+      titleHighlights: findHighlights(conversation.title, terms),
+      snippets: [...matches]
+        .sort((a, b) => b.matchedTerms.length - a.matchedTerms.length || a.message.timestamp - b.message.timestamp)
+        .slice(0, MAX_SNIPPETS)
+        .map(match => buildSnippet(match.message, match.text, terms)),
+      matchCount: matches.length
+    });
+  });
+
+  const titleMatches = (result: ConversationSearchResult) => terms.every(term => result.conversation.title.toLowerCase().includes(term));
+
+  return results.sort((a, b) =>
+    Number(titleMatches(b)) - Number(titleMatches(a)) ||
+    b.matchCount - a.matchCount ||
+    b.conversation.createdAt - a.conversation.createdAt
+  );
+};
+
+/**
+ * Text of a message that is embedded for semantic search
+ */
+export const getEmbeddingText = (message: Message): string => {
+  return normalizeWhitespace(message.content).slice(0, EMBEDDING_TEXT_LIMIT);
+};
+
+/**
+ * Whether a message is finished and has text worth indexing
+ * Streaming messages are picked up once they complete; failed and blocked replies are skipped
+ */
+export const isIndexableMessage = (message: Message): boolean => {
+  return (!message.status || message.status === 'complete' || message.status === 'stopped') &&
+    message.content.trim().length > 0;
+};
+
+/**
+ * Hash the text of a message (32-bit FNV-1a), to notice when it changed since it was embedded
+ */
+export const hashContent = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${text.length}`;
+};
+
+/**
+ * Message that needs embedding, with the text and hash to store
+ */
+export interface PendingEmbedding {
+  conversationId: string;
+  messageId: string;
+  text: string;
+  contentHash: string;
+}
+
+/**
+ * Work out how to bring the index up to date with the conversations:
+ * which messages are new or changed and need embedding, and which entries belong to
+ * deleted messages or to another embedding model
+ */
+export const planIndexUpdate = (
+  index: Map<string, EmbeddingRecord>,
+  conversations: Conversation[],
+  model: string
+): { pending: PendingEmbedding[]; staleIds: string[] } => {
+  const pending: PendingEmbedding[] = [];
+  const indexable = new Set<string>();
+
+  conversations.forEach(conversation => {
+    conversation.messages.forEach(message => {
+      if (!isIndexableMessage(message)) return;
+
+      const text = getEmbeddingText(message);
+      const contentHash = hashContent(text);
+      indexable.add(message.id);
+
+      const record = index.get(message.id);
+      if (!record || record.contentHash !== contentHash || record.model !== model) {
+        pending.push({ conversationId: conversation.id, messageId: message.id, text, contentHash });
+      }
+    });
+  });
+
+  const staleIds = Array.from(index.values())
+    .filter(record => !indexable.has(record.messageId) || record.model !== model)
+    .map(record => record.messageId);
+
+  return { pending, staleIds };
+};
+
+/**
+ * Turn the messages closest to a query into conversation results, best match first
+ */
+export const groupSemanticMatches = (
+  conversations: Conversation[],
+  matches: SemanticMatch[]
+): ConversationSearchResult[] => {
+  const byId = new Map(conversations.map(conv => [conv.id, conv]));
+  const results = new Map<string, ConversationSearchResult>();
+
+  matches
+    .filter(match => match.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .forEach(match => {
+      const conversation = byId.get(match.conversationId);
+      const message = conversation?.messages.find(msg => msg.id === match.messageId);
+      if (!conversation || !message) return;
+
+      const result = results.get(conversation.id) || {
+        conversation,
+        titleHighlights: [],
+        snippets: [],
+        matchCount: 0,
+        score: match.score
+      };
+
+      result.matchCount++;
+      if (result.snippets.length < MAX_SNIPPETS) {
+        result.snippets.push({ ...buildSnippet(message, normalizeWhitespace(message.content), []), score: match.score });
+      }
+      results.set(conversation.id, result);
+    });
+
+  return Array.from(results.values());
+};
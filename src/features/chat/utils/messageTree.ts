@@ -0,0 +1,65 @@
+import { Conversation, Message } from '../types/chat.types';
+
+/**
+ * Give messages saved before branching existed a parent, treating the list as one linear thread,
+ * and point the conversation at its last message if no branch is selected
+ */
+export const normalizeMessageTree = (conversation: Conversation): Conversation => {
+  const needsParents = conversation.messages.some(msg => msg.parentId === undefined);
+  if (!needsParents && conversation.currentLeafId !== undefined) {
+    return conversation;
+  }
+
+  const messages = needsParents
+    ? conversation.messages.map((msg, index) =>
+        msg.parentId === undefined
+          ? { ...msg, parentId: index > 0 ? conversation.messages[index - 1].id : null }
+          : msg
+      )
+    : conversation.messages;
+
+  return {
+    ...conversation,
+    messages,
+    currentLeafId: conversation.currentLeafId ?? messages[messages.length - 1]?.id ?? null
+  };
+};
+
+/**
+ * Get the messages on the path from the root to a message, oldest first
+ */
+export const getMessagePath = (messages: Message[], leafId: string | null | undefined): Message[] => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: Message[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+};
+
+/**
+ * Get the alternatives for a message (messages sharing its parent), oldest first
+ */
+export const getSiblings = (messages: Message[], message: Message): Message[] => {
+  return messages
+    .filter(msg => msg.parentId === message.parentId && msg.role === message.role)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Find the leaf reached by following the most recent reply down from a message
+ */
+export const findLatestLeaf = (messages: Message[], messageId: string): string => {
+  let leafId = messageId;
+
+  for (;;) {
+    const children = messages.filter(msg => msg.parentId === leafId);
+    if (children.length === 0) return leafId;
+
+    leafId = children.reduce((latest, child) => child.timestamp > latest.timestamp ? child : latest).id;
+  }
+};
@@ -0,0 +1,50 @@
+import { Persona } from '../types/chat.types';
+
+const STORAGE_KEY = 'personas';
+
+/**
+ * Persona presets that ship with the app
+ */
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'code-reviewer',
+    name: 'Code Reviewer',
+    description: 'Reviews code for bugs, readability and maintainability',
+    instruction: `You are a senior software engineer doing a code review. Point out bugs, edge cases, security issues and unclear code before style nits. For each issue, quote the relevant line, explain why it matters and suggest a concrete fix. Be direct but constructive, and say so when the code is already good.`,
+    builtIn: true
+  },
+  {
+    id: 'concise-analyst',
+    name: 'Concise Analyst',
+    description: 'Short, structured answers with the key facts first',
+    instruction: `You are a concise analyst. Lead with the answer in one or two sentences, then give only the supporting facts that matter as a short bulleted list. Avoid filler, hedging and repetition. State your confidence when the evidence is mixed.`,
+    builtIn: true
+  },
+  {
+    id: 'tutor',
+    name: 'Tutor',
+    description: 'Explains step by step and checks understanding',
+    instruction: `You are a patient tutor. Explain concepts step by step, starting from what the learner likely already knows, and use simple examples and analogies. Define jargon when you first use it. End with a short question that checks understanding or suggests what to learn next.`,
+    builtIn: true
+  }
+];
+
+/**
+ * Load the user's own persona presets
+ */
+export const loadCustomPersonas = (): Persona[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading personas:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the user's own persona presets
+ */
+export const saveCustomPersonas = (personas: Persona[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(personas.filter(persona => !persona.builtIn)));
+};
@@ -0,0 +1,164 @@
+import { findModelById } from '../../../shared/utils/geminiModels';
+import { getServerUrl } from '../../../shared/utils/server';
+import { Conversation, Message, ShareRecord, SharedConversation, SharedMessage } from '../types/chat.types';
+import { getMessagePath } from './messageTree';
+
+const STORAGE_KEY = 'shares';
+
+// Web pages kept per DeepSearch answer; the rest are rarely cited
+const MAX_SHARED_SOURCES = 10;
+
+/**
+ * Failure of a request to the share server
+ * status is the HTTP status, or unset when the server could not be reached
+ */
+export class ShareError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ShareError';
+    this.status = status;
+  }
+}
+
+const getSharesUrl = (id?: string) => `${getServerUrl()}/api/shares${id ? `/${encodeURIComponent(id)}` : ''}`;
+
+/**
+ * Call the share server, turning network failures and error responses into ShareErrors
+ */
+const requestShares = async (url: string, init?: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (init?.signal?.aborted) throw error;
+    throw new ShareError(`Could not reach the share server at ${getServerUrl()}. Make sure the server in server/ is running.`);
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    const messages: Record<number, string> = {
+      403: 'This share link was created on another device, so it cannot be revoked from here.',
+      404: 'This share link does not exist. Check that it was copied completely.',
+      410: 'This share link was revoked by its owner.'
+    };
+    throw new ShareError(messages[response.status] || body?.message || body?.error || `Share request failed (${response.status})`, response.status);
+  }
+
+  return response;
+};
+
+const toSharedMessage = (message: Message): SharedMessage => {
+  const thinking = message.metadata?.thinking;
+  const shared: SharedMessage = {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp,
+    modelId: message.modelId,
+    modelName: message.modelId ? findModelById(message.modelId)?.name || message.modelId : undefined,
+    isDeepSearch: message.isDeepSearch
+  };
+
+  if (message.attachments?.length) {
+    shared.attachmentNames = message.attachments.map(attachment => attachment.name);
+  }
+  if (thinking?.citations?.length) {
+    shared.citations = thinking.citations;
+  }
+  if (thinking?.searchResults?.length) {
+    shared.sources = thinking.searchResults
+      .slice(0, MAX_SHARED_SOURCES)
+      .map(({ title, url, snippet, source, favicon }) => ({ title, url, snippet, source, favicon }));
+  }
+
+  return shared;
+};
+
+/**
+ * Snapshot the visible thread of a conversation for sharing
+ * Unfinished and failed replies are left out, and attachments are reduced to their names
+ */
+export const createShareSnapshot = (conversation: Conversation): Omit<SharedConversation, 'id' | 'sharedAt'> => {
+  const messages = getMessagePath(conversation.messages, conversation.currentLeafId)
+    .filter(message => message.status !== 'streaming' && message.status !== 'error' && message.status !== 'blocked')
+    .filter(message => message.content.trim().length > 0)
+    .map(toSharedMessage);
+
+  return {
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    messages
+  };
+};
+
+/**
+ * Upload a snapshot of a conversation and get back the record of the new share link
+ */
+export const publishShare = async (conversation: Conversation): Promise<ShareRecord> => {
+  const snapshot = createShareSnapshot(conversation);
+  if (snapshot.messages.length === 0) {
+    throw new ShareError('This conversation has no finished messages to share yet.');
+  }
+
+  const response = await requestShares(getSharesUrl(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ conversation: snapshot })
+  });
+  const { id, revokeToken, sharedAt } = await response.json();
+
+  return { id, conversationId: conversation.id, title: conversation.title, sharedAt, revokeToken };
+};
+
+/**
+ * Load a shared conversation by its link ID
+ */
+export const fetchSharedConversation = async (id: string, signal?: AbortSignal): Promise<SharedConversation> => {
+  const response = await requestShares(getSharesUrl(id), { signal });
+  const { share } = await response.json();
+  return share;
+};
+
+/**
+ * Revoke a share link, so it no longer shows the conversation
+ * A link the server no longer knows is treated as already revoked
+ */
+export const unpublishShare = async (share: ShareRecord): Promise<void> => {
+  try {
+    await requestShares(getSharesUrl(share.id), {
+      method: 'DELETE',
+      headers: { 'X-Revoke-Token': share.revokeToken }
+    });
+  } catch (error) {
+    if (!(error instanceof ShareError && (error.status === 404 || error.status === 410))) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Address a share link can be opened at
+ */
+export const getShareUrl = (id: string): string => `${window.location.origin}/share/${id}`;
+
+/**
+ * Load the share links created on this device
+ */
+export const loadShares = (): ShareRecord[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading shares:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the share links created on this device
+ */
+export const saveShares = (shares: ShareRecord[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(shares));
+};
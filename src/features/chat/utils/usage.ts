@@ -0,0 +1,166 @@
+import { UsageRecord } from '../../gemini/types/gemini.types';
+import { UsageEntry, UsageSummary } from '../types/chat.types';
+
+const STORAGE_KEY = 'usageLog';
+
+// How long usage entries are kept for the dashboard
+const RETENTION_DAYS = 90;
+
+/**
+ * Paid tier prices in US dollars per million tokens, by model family
+ * Models are matched by the longest prefix, so "gemini-2.0-flash-lite" is priced before "gemini-2.0-flash"
+ */
+export const MODEL_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+  { prefix: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+  { prefix: 'gemini-2.0-pro', input: 1.25, output: 10 },
+  { prefix: 'gemini-2.0-flash-lite', input: 0.075, output: 0.3 },
+  { prefix: 'gemini-2.0-flash', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-1.5-pro', input: 1.25, output: 5 },
+  { prefix: 'gemini-1.5-flash', input: 0.075, output: 0.3 }
+];
+
+const getPricing = (modelId: string) => {
+  return MODEL_PRICING
+    .filter(({ prefix }) => modelId.startsWith(prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+};
+
+/**
+ * Estimate the cost of a model call in US dollars
+ * Returns null for models without known pricing
+ */
+export const estimateCost = (modelId: string, promptTokens: number, responseTokens: number): number | null => {
+  const pricing = getPricing(modelId);
+  if (!pricing) return null;
+
+  return (promptTokens * pricing.input + responseTokens * pricing.output) / 1000000;
+};
+
+/**
+ * Add the usage of a model call to a message's totals
+ */
+export const addUsage = (summary: UsageSummary | undefined, record: UsageRecord): UsageSummary => {
+  const base: UsageSummary = summary || {
+    requests: 0,
+    promptTokens: 0,
+    responseTokens: 0,
+    totalTokens: 0,
+    latencyMs: 0,
+    estimatedCost: 0
+  };
+
+  return {
+    requests: base.requests + 1,
+    promptTokens: base.promptTokens + record.promptTokens,
+    responseTokens: base.responseTokens + record.responseTokens,
+    totalTokens: base.totalTokens + record.totalTokens,
+    latencyMs: base.latencyMs + record.latencyMs,
+    estimatedCost: base.estimatedCost + (estimateCost(record.modelId, record.promptTokens, record.responseTokens) ?? 0)
+  };
+};
+
+/**
+ * Format a cost for display, with more precision for the fractions of a cent most calls cost
+ */
+export const formatCost = (cost: number): string => {
+  if (cost === 0) return '$0.00';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+};
+
+/**
+ * Format a token count for display, e.g. 12500 becomes "12.5K"
+ */
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return String(tokens);
+};
+
+/**
+ * Load the usage log, without entries older than the retention period
+ */
+export const loadUsageLog = (): UsageEntry[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return saved ? (JSON.parse(saved) as UsageEntry[]).filter(entry => entry.timestamp >= cutoff) : [];
+  } catch (error) {
+    console.error('Error loading usage log:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the usage log
+ */
+export const saveUsageLog = (entries: UsageEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Error saving usage log:', error);
+  }
+};
+
+/**
+ * Total tokens and cost of each of the last `days` days, oldest first
+ */
+export const getDailyUsage = (entries: UsageEntry[], days: number) => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  return Array.from({ length: days }, (_, index) => {
+    const start = new Date(startOfToday);
+    start.setDate(start.getDate() - (days - 1 - index));
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+
+    const dayEntries = entries.filter(entry => entry.timestamp >= start.getTime() && entry.timestamp < end.getTime());
+
+    return {
+      date: start,
+      requests: dayEntries.length,
+      totalTokens: dayEntries.reduce((total, entry) => total + entry.totalTokens, 0),
+      estimatedCost: dayEntries.reduce((total, entry) => total + (estimateCost(entry.modelId, entry.promptTokens, entry.responseTokens) ?? 0), 0)
+    };
+  });
+};
+
+/**
+ * Usage totals per model, most expensive first
+ */
+export const getUsageByModel = (entries: UsageEntry[]) => {
+  const byModel = new Map<string, UsageSummary & { modelId: string; hasPricing: boolean }>();
+
+  entries.forEach(entry => {
+    const current = byModel.get(entry.modelId);
+    byModel.set(entry.modelId, {
+      ...addUsage(current, entry),
+      modelId: entry.modelId,
+      hasPricing: estimateCost(entry.modelId, 0, 0) !== null
+    });
+  });
+
+  return Array.from(byModel.values()).sort((a, b) => b.estimatedCost - a.estimatedCost || b.totalTokens - a.totalTokens);
+};
+
+/**
+ * Usage totals per conversation, most expensive first
+ */
+export const getUsageByConversation = (entries: UsageEntry[]) => {
+  const byConversation = new Map<string, UsageSummary & { conversationId: string }>();
+
+  entries.forEach(entry => {
+    if (!entry.conversationId) return;
+
+    const current = byConversation.get(entry.conversationId);
+    byConversation.set(entry.conversationId, {
+      ...addUsage(current, entry),
+      conversationId: entry.conversationId
+    });
+  });
+
+  return Array.from(byConversation.values()).sort((a, b) => b.estimatedCost - a.estimatedCost || b.totalTokens - a.totalTokens);
+};
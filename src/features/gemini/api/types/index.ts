@@ -1,4 +1,4 @@
-import { SearchResult, ThinkingProcess } from '../../types/gemini.types';
+import { Attachment, GenerationSettings, SafetyThresholds, SearchResult, ThinkingProcess, UsageRecord } from '../../types/gemini.types';
 
 /**
  * Interface for multi-round search state
@@ -41,9 +41,75 @@ export interface GeminiWebSearchResponse {
  */
 export interface MessageOptions {
   model?: string;
-  temperature?: number;
   webSearch?: boolean;
-  maxTokens?: number;
+  generationSettings?: GenerationSettings;
+}
+
+/**
+ * Interface for a previous conversation turn sent to the model as context
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  attachments?: Attachment[];
+}
+
+/**
+ * Interface for per-request options passed to GeminiService generation calls
+ */
+export interface GenerationOptions {
+  /** Aborts the request (and any remaining DeepSearch stages) when signalled */
+  signal?: AbortSignal;
+  /** Earlier turns of the conversation, oldest first, trimmed to fit the model's input limit */
+  history?: ConversationTurn[];
+  /** Images and files sent as inline data with the prompt (multimodal models only) */
+  attachments?: Attachment[];
+  /** Conversation-level instructions (e.g. a persona), sent as the system instruction */
+  systemInstruction?: string;
+  /** Sampling and output settings for the response; unset fields use the model defaults */
+  generationSettings?: GenerationSettings;
+  /** Block thresholds per harm category; categories left out use the defaults */
+  safetyThresholds?: SafetyThresholds;
+  /** Called with the usage of every model call made for the request, including each DeepSearch stage */
+  onUsage?: (record: UsageRecord) => void;
+  /** Called with the reasoning accumulated so far as a thinking model thinks (models that support thinking only) */
+  onThought?: (thoughts: string) => void;
+}
+
+/**
+ * Interface for options accepted by embedding calls
+ */
+export interface EmbeddingOptions {
+  /** Aborts the request when signalled */
+  signal?: AbortSignal;
+  /** What the embeddings are for: 'query' for search queries, 'document' for the texts being searched */
+  purpose?: 'query' | 'document';
+}
+
+/**
+ * Interface for options accepted by structured (JSON) generation
+ */
+export interface StructuredGenerationOptions extends GenerationOptions {
+  /** Total attempts before giving up on output that fails schema validation (default 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * Interface for options accepted by the DeepSearch (web search) pipeline
+ */
+export interface WebSearchOptions extends GenerationOptions {
+  /** Called with a snapshot of the thinking process each time a stage, search round or source list advances */
+  onProgress?: (thinkingProcess: ThinkingProcess) => void;
+}
+
+/**
+ * Interface for the context used to suggest follow-up questions
+ */
+export interface FollowUpContext {
+  /** Gaps the DeepSearch pipeline could not fill from its sources */
+  informationGaps?: string[];
+  /** Subtopics identified during DeepSearch domain analysis */
+  subtopics?: string[];
 }
 
 /**
@@ -1,5 +1,20 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
 import { GeminiService } from '../services/GeminiService';
+import { InvalidApiKeyError } from '../services/errors';
+import { GeminiModel, GeminiTransport, SavedApiKey } from '../types/gemini.types';
+import { GEMINI_MODELS, setAvailableModels } from '../../../shared/utils/geminiModels';
+import { getServerUrl } from '../../../shared/utils/server';
+import {
+  decryptApiKey,
+  encryptApiKey,
+  getKeyHint,
+  loadActiveApiKeyId,
+  loadApiKeys,
+  loadSetupComplete,
+  saveActiveApiKeyId,
+  saveApiKeys,
+  saveSetupComplete
+} from '../utils/apiKeys';
 
 // Declare only the Window interface for custom environment variables
 declare global {
@@ -7,22 +22,73 @@ declare global {
   interface Window {
     _env_?: {
       GEMINI_API_KEY?: string;
+      GEMINI_TRANSPORT?: string;
       MAX_SEARCH_ROUNDS?: string;
+      SERVER_URL?: string;
       [key: string]: any;
     };
   }
 }
 
+/**
+ * Whether the service has a key to work with: 'locked' while the saved key in use waits for its passphrase,
+ * 'setup-required' on first run when the app was deployed without a key or proxy configured
+ */
+export type ApiKeyStatus = 'ready' | 'locked' | 'setup-required';
+
+/**
+ * Key to save in the browser; with a passphrase it is stored encrypted
+ */
+export interface NewApiKey {
+  label: string;
+  apiKey: string;
+  passphrase?: string;
+}
+
 interface GeminiServiceContextType {
   geminiService: GeminiService | null;
   isLoading: boolean;
   error: Error | null;
+  /** Models that can be selected, discovered from the API once the service has started */
+  models: GeminiModel[];
+  /** Whether models came from the API's model listing, or from the static list because discovery failed or has not finished */
+  modelsSource: 'api' | 'fallback';
+  keyStatus: ApiKeyStatus;
+  /** API keys the user saved in this browser */
+  savedKeys: SavedApiKey[];
+  /** Saved key in use, or null for the key or proxy the app was deployed with */
+  activeKeyId: string | null;
+  /** Encrypted keys that were unlocked with their passphrase this session */
+  unlockedKeyIds: string[];
+  /** How the app reaches the API when no saved key is in use */
+  defaultTransportMode: GeminiTransport['mode'];
+  addApiKey: (key: NewApiKey) => Promise<SavedApiKey>;
+  removeApiKey: (id: string) => void;
+  selectApiKey: (id: string | null) => void;
+  unlockApiKey: (id: string, passphrase: string) => Promise<void>;
+  /** Check a key with a cheap request; null checks the key or proxy the app was deployed with */
+  testApiKey: (apiKey: string | null, signal?: AbortSignal) => Promise<void>;
+  /** Check a saved key; encrypted keys have to be unlocked first */
+  testSavedApiKey: (id: string, signal?: AbortSignal) => Promise<void>;
 }
 
 const GeminiServiceContext = createContext<GeminiServiceContextType>({
   geminiService: null,
   isLoading: true,
-  error: null
+  error: null,
+  models: GEMINI_MODELS,
+  modelsSource: 'fallback',
+  keyStatus: 'ready',
+  savedKeys: [],
+  activeKeyId: null,
+  unlockedKeyIds: [],
+  defaultTransportMode: 'proxy',
+  addApiKey: async (key) => ({ id: '', label: key.label, createdAt: 0 }),
+  removeApiKey: () => {},
+  selectApiKey: () => {},
+  unlockApiKey: async () => {},
+  testApiKey: async () => {},
+  testSavedApiKey: async () => {}
 });
 
 /**
@@ -31,8 +97,10 @@ const GeminiServiceContext = createContext<GeminiServiceContextType>({
  */
 const getApiKey = (): string => {
   // Check Vite environment variables (build time)
-  if (import.meta.env.VITE_GEMINI_API_KEY) {
-    return import.meta.env.VITE_GEMINI_API_KEY;
+  // Only direct builds read the key; vite.config also leaves it out of every other build
+  const buildKey = import.meta.env.VITE_GEMINI_TRANSPORT === 'direct' ? import.meta.env.VITE_GEMINI_API_KEY : '';
+  if (buildKey) {
+    return buildKey;
   }
   
   // Check runtime environment variables (set in window._env_)
@@ -44,6 +112,24 @@ const getApiKey = (): string => {
   return '';
 };
 
+/**
+ * Get the transport set with GEMINI_TRANSPORT, if any
+ */
+const getConfiguredTransportMode = (): string | undefined => {
+  return import.meta.env.VITE_GEMINI_TRANSPORT || window._env_?.GEMINI_TRANSPORT;
+};
+
+/**
+ * Decide how to reach the Gemini API
+ * Requests go through the server's proxy unless GEMINI_TRANSPORT is set to 'direct',
+ * so a key left in the environment of an older deployment is not used from the browser
+ */
+const getTransport = (apiKey: string): GeminiTransport => {
+  return getConfiguredTransportMode() === 'direct'
+    ? { mode: 'direct', apiKey }
+    : { mode: 'proxy', proxyUrl: `${getServerUrl()}/api/gemini` };
+};
+
 /**
  * Get max search rounds from environment variables
  * Defaults to 5 if not specified
@@ -86,18 +172,58 @@ export const GeminiServiceProvider: React.FC<GeminiServiceProviderProps> = ({
   const [geminiService, setGeminiService] = useState<GeminiService | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
+  const [models, setModels] = useState<GeminiModel[]>(GEMINI_MODELS);
+  const [modelsSource, setModelsSource] = useState<'api' | 'fallback'>('fallback');
+  const [savedKeys, setSavedKeys] = useState<SavedApiKey[]>(loadApiKeys);
+  const [activeKeyId, setActiveKeyId] = useState<string | null>(loadActiveApiKeyId);
+  const [setupComplete, setSetupComplete] = useState<boolean>(loadSetupComplete);
+  // Decrypted keys are only kept in memory, so encrypted keys are unlocked again after a reload
+  const [unlockedKeys, setUnlockedKeys] = useState<Record<string, string>>({});
+
+  const activeKey = savedKeys.find(key => key.id === activeKeyId);
+  const activeSecret = activeKey ? activeKey.key ?? unlockedKeys[activeKey.id] : undefined;
+  // First run asks for a key only when the deployment did not settle how to reach the API
+  const needsSetup = !setupComplete && savedKeys.length === 0 && !getConfiguredTransportMode();
+  const keyStatus: ApiKeyStatus = activeKey
+    ? (activeSecret ? 'ready' : 'locked')
+    : (needsSetup ? 'setup-required' : 'ready');
+
+  const transport = useMemo<GeminiTransport | null>(() => {
+    if (keyStatus !== 'ready') return null;
+    return activeSecret ? { mode: 'direct', apiKey: activeSecret } : getTransport(apiKey);
+  }, [keyStatus, activeSecret, apiKey]);
+
+  // Save the keys and the choice of key to localStorage
+  useEffect(() => {
+    saveApiKeys(savedKeys);
+  }, [savedKeys]);
+
+  useEffect(() => {
+    saveActiveApiKeyId(activeKeyId);
+  }, [activeKeyId]);
+
+  useEffect(() => {
+    saveSetupComplete(setupComplete);
+  }, [setupComplete]);
 
   useEffect(() => {
     const initializeService = async () => {
       try {
-        if (!apiKey) {
-          throw new Error('Gemini API key is required. Please provide a valid API key.');
+        if (!transport) {
+          setGeminiService(null);
+          setError(null);
+          return;
+        }
+        if (transport.mode === 'direct' && !transport.apiKey) {
+          throw new InvalidApiKeyError('Gemini API key is required. Please provide a valid API key.');
         }
         
-        console.log('Initializing Gemini service with API key:', apiKey.substring(0, 4) + '...');
+        console.log(transport.mode === 'proxy'
+          ? `Initializing Gemini service through the server proxy at ${transport.proxyUrl}`
+          : `Initializing Gemini service with ${activeKey ? `saved key "${activeKey.label}"` : 'an API key from the browser'}`);
         console.log('Using max search rounds:', maxSearchRounds);
         
-        const service = new GeminiService(apiKey, { maxSearchRounds });
+        const service = new GeminiService(transport, { maxSearchRounds });
         setGeminiService(service);
         setError(null);
       } catch (err) {
@@ -114,10 +240,109 @@ export const GeminiServiceProvider: React.FC<GeminiServiceProviderProps> = ({
     return () => {
       setGeminiService(null);
     };
-  }, [apiKey, maxSearchRounds]);
+  }, [transport, maxSearchRounds]);
+
+  // Discover the models available to the API key, keeping the static list when offline or the listing fails
+  useEffect(() => {
+    if (!geminiService) return;
+
+    const controller = new AbortController();
+
+    geminiService.discoverModels(controller.signal)
+      .then(discoveredModels => {
+        setAvailableModels(discoveredModels);
+        setModels(discoveredModels);
+        setModelsSource('api');
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.warn('Could not discover Gemini models, using the built-in list:', err);
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [geminiService]);
+
+  const addApiKey = async ({ label, apiKey: key, passphrase }: NewApiKey): Promise<SavedApiKey> => {
+    const trimmedKey = key.trim();
+    const savedKey: SavedApiKey = {
+      id: Math.random().toString(36).substring(2, 15),
+      label: label.trim() || `Key ${getKeyHint(trimmedKey)}`,
+      createdAt: Date.now(),
+      ...(passphrase
+        ? { encrypted: await encryptApiKey(trimmedKey, passphrase) }
+        : { key: trimmedKey, hint: getKeyHint(trimmedKey) })
+    };
+
+    if (passphrase) {
+      setUnlockedKeys(prev => ({ ...prev, [savedKey.id]: trimmedKey }));
+    }
+    setSavedKeys(prev => [...prev, savedKey]);
+    setActiveKeyId(savedKey.id);
+    setSetupComplete(true);
+    return savedKey;
+  };
+
+  const removeApiKey = (id: string) => {
+    setSavedKeys(prev => prev.filter(key => key.id !== id));
+    setUnlockedKeys(({ [id]: _removed, ...rest }) => rest);
+    if (activeKeyId === id) {
+      setActiveKeyId(null);
+    }
+  };
+
+  // Switch to a saved key, or to the deployment's key or proxy with null
+  const selectApiKey = (id: string | null) => {
+    setActiveKeyId(id);
+    setSetupComplete(true);
+  };
+
+  // Decrypt a saved key for this session
+  const unlockApiKey = async (id: string, passphrase: string) => {
+    const savedKey = savedKeys.find(key => key.id === id);
+    if (!savedKey?.encrypted) return;
+
+    const key = await decryptApiKey(savedKey.encrypted, passphrase);
+    setUnlockedKeys(prev => ({ ...prev, [id]: key }));
+  };
+
+  const testApiKey = async (key: string | null, signal?: AbortSignal) => {
+    const service = new GeminiService(key === null ? getTransport(apiKey) : key.trim(), { maxRetries: 0 });
+    await service.validateAccess(signal);
+  };
+
+  const testSavedApiKey = async (id: string, signal?: AbortSignal) => {
+    const savedKey = savedKeys.find(key => key.id === id);
+    const key = savedKey ? savedKey.key ?? unlockedKeys[id] : undefined;
+    if (!key) {
+      throw new Error('Unlock the key with its passphrase first');
+    }
+
+    await testApiKey(key, signal);
+  };
 
   return (
-    <GeminiServiceContext.Provider value={{ geminiService, isLoading, error }}>
+    <GeminiServiceContext.Provider
+      value={{
+        geminiService,
+        isLoading,
+        error,
+        models,
+        modelsSource,
+        keyStatus,
+        savedKeys,
+        activeKeyId: activeKey ? activeKey.id : null,
+        unlockedKeyIds: Object.keys(unlockedKeys),
+        defaultTransportMode: getTransport(apiKey).mode,
+        addApiKey,
+        removeApiKey,
+        selectApiKey,
+        unlockApiKey,
+        testApiKey,
+        testSavedApiKey
+      }}
+    >
       {children}
     </GeminiServiceContext.Provider>
   );
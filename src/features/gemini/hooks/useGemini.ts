@@ -1,111 +1,266 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useGeminiService } from '../context/GeminiServiceContext';
-import { SearchResult, ThinkingProcess } from '../types/gemini.types';
+import { GeminiService } from '../services/GeminiService';
+import { SearchResult, ThinkingProcess, TokenCount } from '../types/gemini.types';
+import { GenerationOptions, WebSearchOptions, FollowUpContext, StructuredGenerationOptions, EmbeddingOptions } from '../api/types';
+import { StructuredSchema } from '../services/structuredSchema';
+import { GeminiError, toGeminiError } from '../services/errors';
 
 interface UseGeminiReturn {
-  generateContent: (prompt: string, modelId: string, includeFormatting?: boolean) => Promise<string>;
-  generateWithWebSearch: (query: string, modelId: string) => Promise<{
+  generateContent: (
+    prompt: string,
+    modelId: string,
+    includeFormatting?: boolean,
+    options?: GenerationOptions
+  ) => Promise<string>;
+  generateContentStream: (
+    prompt: string,
+    modelId: string,
+    onChunk: (text: string) => void,
+    includeFormatting?: boolean,
+    options?: GenerationOptions
+  ) => Promise<string>;
+  generateCandidates: (
+    prompt: string,
+    modelId: string,
+    includeFormatting?: boolean,
+    options?: GenerationOptions
+  ) => Promise<string[]>;
+  generateWithWebSearch: (query: string, modelId: string, options?: WebSearchOptions) => Promise<{
     text: string;
     searchResults: SearchResult[];
     thinkingProcess?: ThinkingProcess;
   }>;
-  generateEmbeddings: (text: string) => Promise<number[]>;
+  generateStructured: <T>(
+    prompt: string,
+    schema: StructuredSchema<T>,
+    modelId: string,
+    options?: StructuredGenerationOptions
+  ) => Promise<T>;
+  generateFollowUpQuestions: (
+    question: string,
+    answer: string,
+    modelId: string,
+    context?: FollowUpContext,
+    options?: GenerationOptions
+  ) => Promise<string[]>;
+  generateTitle: (
+    question: string,
+    answer: string,
+    modelId: string,
+    options?: GenerationOptions
+  ) => Promise<string>;
+  generateEmbeddings: (text: string, options?: EmbeddingOptions) => Promise<number[]>;
+  countTokens: (
+    prompt: string,
+    modelId: string,
+    includeFormatting?: boolean,
+    options?: GenerationOptions
+  ) => Promise<TokenCount | null>;
   isLoading: boolean;
-  error: Error | null;
+  /** Last failure of a call made through this hook, or why the service could not start */
+  error: GeminiError | null;
 }
 
 /**
  * Hook to use the Gemini service
+ * Failed calls reject with a GeminiError, which is also kept in `error` until the next call;
+ * requests cancelled through options.signal reject with the original abort error and leave `error` alone
  */
 export const useGemini = (): UseGeminiReturn => {
   const { geminiService, isLoading: serviceLoading, error: serviceError } = useGeminiService();
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<Error | null>(null);
+  const [error, setError] = useState<GeminiError | null>(null);
+
+  const serviceGeminiError = useMemo(() => serviceError ? toGeminiError(serviceError) : null, [serviceError]);
 
   /**
-   * Generate content using the specified model
+   * Run a service call, tracking its loading and error state
    */
-  const generateContent = async (prompt: string, modelId: string, includeFormatting: boolean = true): Promise<string> => {
+  const runWithService = async <T>(
+    call: (service: GeminiService) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> => {
     if (!geminiService) {
-      return 'Gemini service is not available';
+      const unavailableError = serviceGeminiError
+        || new GeminiError('unknown', 'The Gemini service is still starting. Try again in a moment.', { retryable: true });
+      setError(unavailableError);
+      throw unavailableError;
     }
 
     setIsLoading(true);
     setError(null);
 
     try {
-      const response = await geminiService.generateContent(prompt, modelId, includeFormatting);
-      return response;
+      return await call(geminiService);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      setError(new Error(errorMessage));
-      return `Error generating content: ${errorMessage}`;
+      if (signal?.aborted) {
+        throw err;
+      }
+
+      const geminiError = toGeminiError(err);
+      setError(geminiError);
+      throw geminiError;
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * Generate content using the specified model
+   */
+  const generateContent = (
+    prompt: string,
+    modelId: string,
+    includeFormatting: boolean = true,
+    options: GenerationOptions = {}
+  ): Promise<string> => {
+    return runWithService(
+      service => service.generateContent(prompt, modelId, includeFormatting, options),
+      options.signal
+    );
+  };
+
+  /**
+   * Generate content using the specified model, reporting the accumulated
+   * response text through onChunk as it streams in
+   */
+  const generateContentStream = (
+    prompt: string,
+    modelId: string,
+    onChunk: (text: string) => void,
+    includeFormatting: boolean = true,
+    options: GenerationOptions = {}
+  ): Promise<string> => {
+    return runWithService(
+      service => service.generateContentStream(prompt, modelId, onChunk, includeFormatting, options),
+      options.signal
+    );
+  };
+
+  /**
+   * Generate several alternative responses to the same prompt
+   */
+  const generateCandidates = (
+    prompt: string,
+    modelId: string,
+    includeFormatting: boolean = true,
+    options: GenerationOptions = {}
+  ): Promise<string[]> => {
+    return runWithService(
+      service => service.generateCandidates(prompt, modelId, includeFormatting, options),
+      options.signal
+    );
+  };
+
   /**
    * Generate content with web search
    */
-  const generateWithWebSearch = async (query: string, modelId: string): Promise<{
+  const generateWithWebSearch = (query: string, modelId: string, options: WebSearchOptions = {}): Promise<{
     text: string;
     searchResults: SearchResult[];
     thinkingProcess?: ThinkingProcess;
   }> => {
+    return runWithService(
+      service => service.generateWithWebSearch(query, modelId, options),
+      options.signal
+    );
+  };
+
+  /**
+   * Generate a JSON response validated against a schema
+   */
+  const generateStructured = <T>(
+    prompt: string,
+    schema: StructuredSchema<T>,
+    modelId: string,
+    options: StructuredGenerationOptions = {}
+  ): Promise<T> => {
+    return runWithService(
+      service => service.generateStructured(prompt, schema, modelId, options),
+      options.signal
+    );
+  };
+
+  /**
+   * Suggest follow-up questions for an answer
+   * Runs in the background after a response, so it does not touch the loading or error state
+   */
+  const generateFollowUpQuestions = async (
+    question: string,
+    answer: string,
+    modelId: string,
+    context: FollowUpContext = {},
+    options: GenerationOptions = {}
+  ): Promise<string[]> => {
     if (!geminiService) {
-      return {
-        text: 'Gemini service is not available',
-        searchResults: []
-      };
+      return [];
     }
 
-    setIsLoading(true);
-    setError(null);
+    return geminiService.generateFollowUpQuestions(question, answer, modelId, context, options);
+  };
+
+  /**
+   * Name a conversation from its opening exchange
+   * Runs in the background, so it does not touch the loading or error state
+   */
+  const generateTitle = async (
+    question: string,
+    answer: string,
+    modelId: string,
+    options: GenerationOptions = {}
+  ): Promise<string> => {
+    if (!geminiService) {
+      throw serviceGeminiError
+        || new GeminiError('unknown', 'The Gemini service is still starting. Try again in a moment.', { retryable: true });
+    }
 
     try {
-      const response = await geminiService.generateWithWebSearch(query, modelId);
-      return response;
+      return await geminiService.generateTitle(question, answer, modelId, options);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      setError(new Error(errorMessage));
-      return {
-        text: `Error generating content with web search: ${errorMessage}`,
-        searchResults: []
-      };
-    } finally {
-      setIsLoading(false);
+      throw options.signal?.aborted ? err : toGeminiError(err);
     }
   };
 
   /**
    * Generate embeddings for text
    */
-  const generateEmbeddings = async (text: string): Promise<number[]> => {
+  const generateEmbeddings = (text: string, options: EmbeddingOptions = {}): Promise<number[]> => {
+    return runWithService(
+      service => service.generateEmbeddings(text, options),
+      options.signal
+    );
+  };
+
+  /**
+   * Count the tokens a message would use with its history
+   * Runs in the background while typing, so it does not touch the loading or error state
+   * @returns null while the service is unavailable
+   */
+  const countTokens = async (
+    prompt: string,
+    modelId: string,
+    includeFormatting: boolean = true,
+    options: GenerationOptions = {}
+  ): Promise<TokenCount | null> => {
     if (!geminiService) {
-      throw new Error('Gemini service is not available');
+      return null;
     }
 
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const embeddings = await geminiService.generateEmbeddings(text);
-      return embeddings;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      setError(new Error(errorMessage));
-      throw new Error(`Error generating embeddings: ${errorMessage}`);
-    } finally {
-      setIsLoading(false);
-    }
+    return geminiService.countTokens(prompt, modelId, includeFormatting, options);
   };
 
   return {
     generateContent,
+    generateContentStream,
+    generateCandidates,
     generateWithWebSearch,
+    generateStructured,
+    generateFollowUpQuestions,
+    generateTitle,
     generateEmbeddings,
+    countTokens,
     isLoading: isLoading || serviceLoading,
-    error: error || serviceError
+    error: error || serviceGeminiError
   };
-}; 
\ No newline at end of file
+};
@@ -1,8 +1,23 @@
 // Export services
 export { GeminiService } from './services/GeminiService';
+export { schema, SchemaValidationError } from './services/structuredSchema';
+export type { StructuredSchema, InferSchema } from './services/structuredSchema';
+export {
+  GeminiError,
+  QuotaExceededError,
+  InvalidApiKeyError,
+  ModelNotFoundError,
+  NetworkError,
+  TimeoutError,
+  BlockedResponseError
+} from './services/errors';
 
 // Export context
 export { GeminiServiceProvider, useGeminiService } from './context/GeminiServiceContext';
+export type { ApiKeyStatus, NewApiKey } from './context/GeminiServiceContext';
+
+// Export utilities
+export { encryptApiKey, decryptApiKey, canEncryptApiKeys } from './utils/apiKeys';
 
 // Export hooks
 export { useGemini } from './hooks/useGemini';
@@ -14,5 +29,18 @@ export type {
   ThinkingStep,
   Citation,
   ReasoningStep,
-  GeminiModel
+  GeminiModel,
+  GeminiTransport,
+  SavedApiKey,
+  EncryptedSecret,
+  ModelListing,
+  TokenCount,
+  UsageRecord,
+  UsageOperation,
+  Attachment,
+  GenerationSettings,
+  SafetyThresholds,
+  BlockedResponseInfo,
+  GeminiErrorCode,
+  GeminiErrorInfo
 } from './types/gemini.types'; 
\ No newline at end of file
@@ -1,76 +1,248 @@
-import { GoogleGenerativeAI, GenerativeModel, SafetySetting, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
-import { SearchResult, ThinkingProcess, Citation } from '../types/gemini.types';
+import { GoogleGenerativeAI, GoogleGenerativeAIFetchError, GenerativeModel, SafetySetting, Content, Part, GenerateContentRequest, GenerationConfig, UsageMetadata, TaskType, RequestOptions } from '@google/generative-ai';
+import { SearchResult, ThinkingProcess, ThinkingStep, Citation, GenerationSettings, SafetyThresholds, GeminiModel, GeminiTransport, ModelListing, TokenCount, UsageOperation } from '../types/gemini.types';
+import { ConversationTurn, GenerationOptions, WebSearchOptions, FollowUpContext, StructuredGenerationOptions, EmbeddingOptions } from '../api/types';
+import { StructuredSchema, SchemaValidationError, InferSchema, schema } from './structuredSchema';
+import { GeminiError, BlockedResponseError, InvalidApiKeyError, ModelNotFoundError, TimeoutError, getBlockedResponseInfo, toGeminiError } from './errors';
+import { GEMINI_MODELS, createModelFromListing, prepareDiscoveredModels, supportsAttachments } from '../../../shared/utils/geminiModels';
+import { SAFETY_CATEGORIES, DEFAULT_SAFETY_THRESHOLD } from '../../../shared/utils/safety';
+import { getServerUrl } from '../../../shared/utils/server';
+
+// Structured output schemas for the DeepSearch planning stages
+const domainAnalysisSchema = schema.object({
+  domain: schema.string('e.g. technology, entertainment, science, health, history, sports, politics, finance, education'),
+  queryType: schema.enumeration(['factual', 'explanatory', 'comparative', 'opinion']),
+  entities: schema.array(schema.string()),
+  temporalAspect: schema.enumeration(['recent', 'historical', 'future', 'current']),
+  queryIntent: schema.enumeration(['informational', 'navigational', 'transactional']),
+  subtopics: schema.array(schema.string()),
+  searchStrategy: schema.enumeration(['focused', 'comprehensive', 'exploratory']),
+  potentialSources: schema.array(schema.string())
+});
+
+const searchPlanSchema = schema.object({
+  searchQueries: schema.array(
+    schema.object({
+      query: schema.string(),
+      purpose: schema.string(),
+      expectedInformation: schema.string()
+    }),
+    { minItems: 1, maxItems: 5 }
+  ),
+  informationNeeds: schema.array(schema.string()),
+  synthesisStrategy: schema.string()
+});
+
+const followUpQuestionsSchema = schema.object({
+  questions: schema.array(schema.string(), { minItems: 1, maxItems: 5 })
+});
+
+const conversationTitleSchema = schema.object({
+  title: schema.string('A short descriptive title of 2 to 6 words, without quotes or a trailing period')
+});
+
+// The SDK does not type thinking yet: the API accepts a thinkingConfig in the generation config,
+// returns thought summaries as text parts flagged with `thought`, and counts them in thoughtsTokenCount
+interface ThinkingGenerationConfig extends GenerationConfig {
+  thinkingConfig?: { thinkingBudget?: number; includeThoughts?: boolean };
+}
+type ThoughtPart = Part & { thought?: boolean };
+type ThinkingUsageMetadata = UsageMetadata & { thoughtsTokenCount?: number };
+
+// The SDK requires a key even when requests go through the proxy, which replaces it with the server's own
+const PROXY_API_KEY_PLACEHOLDER = 'proxy';
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
 
 /**
  * GeminiService provides access to Google's Gemini generative AI models
  * with support for content generation, web search, and advanced features
  */
 export class GeminiService {
+  private transport: GeminiTransport;
   private genAI: GoogleGenerativeAI;
+  private requestOptions: RequestOptions = {}; // Points the SDK at the proxy in proxy mode
   private models: Record<string, GenerativeModel> = {};
+  private availableModels: GeminiModel[] = GEMINI_MODELS; // Replaced by discoverModels
+  private modelsEndpoint: string = 'https://generativelanguage.googleapis.com/v1beta/models';
   private embeddingModel: string = 'gemini-embedding-exp-03-07';
+  private defaultMaxInputTokens: number = 16384;
+  private tokenCountThreshold: number = 0.5; // Share of the input window above which requests are counted with the API
+  private maxFitAttempts: number = 3;
+  private maxEmbeddingBatchSize: number = 100; // Most texts the API embeds in one batch request
+  private maxTitleLength: number = 50; // Matches the length the title field accepts
+  private maxStopSequences: number = 5;
+  private maxCandidateCount: number = 8;
+  private maxThinkingBudget: number = 32768;
   private maxSearchRounds: number = 10; // Increased from 3 to 5 rounds by default
+  private requestTimeout: number = 90000; // Per request, or between chunks when streaming
+  private maxRetries: number = 3;
+  private retryBaseDelay: number = 1000;
+  private maxRetryDelay: number = 30000; // Longer waits (e.g. a daily quota) are reported instead
 
-  constructor(apiKey: string, config?: { maxSearchRounds?: number }) {
-    if (!apiKey) {
-      throw new Error('Gemini API key is required');
+  /**
+   * @param transport How to reach the API; a plain string is an API key used directly from the browser
+   */
+  constructor(transport: string | GeminiTransport, config?: { maxSearchRounds?: number; requestTimeout?: number; maxRetries?: number }) {
+    this.transport = typeof transport === 'string' ? { mode: 'direct', apiKey: transport } : transport;
+
+    if (this.transport.mode === 'proxy') {
+      // The proxy mirrors the API's paths, so the SDK only needs a different base URL
+      this.genAI = new GoogleGenerativeAI(PROXY_API_KEY_PLACEHOLDER);
+      this.requestOptions = { baseUrl: this.transport.proxyUrl };
+      this.modelsEndpoint = `${this.transport.proxyUrl}/v1beta/models`;
+    } else {
+      if (!this.transport.apiKey) {
+        throw new InvalidApiKeyError('Gemini API key is required');
+      }
+      this.genAI = new GoogleGenerativeAI(this.transport.apiKey);
     }
-    this.genAI = new GoogleGenerativeAI(apiKey);
     
     // Apply configuration if provided
     if (config) {
       if (config.maxSearchRounds !== undefined) {
         this.maxSearchRounds = config.maxSearchRounds;
       }
+      if (config.requestTimeout !== undefined) {
+        this.requestTimeout = config.requestTimeout;
+      }
+      if (config.maxRetries !== undefined) {
+        this.maxRetries = config.maxRetries;
+      }
     }
-    
-    // Initialize default models
-    this.initializeModels();
   }
 
   /**
-   * Initialize available Gemini models
+   * Whether requests go straight to the API or through the server's proxy
    */
-  private initializeModels() {
-    const modelIds = [
-      'gemini-2.0-flash-thinking-exp',
-      'gemini-2.0-pro-exp',
-      'gemini-2.0-flash-exp',
-      'gemini-1.5-pro',
-      'gemini-1.5-flash',
-    ];
-
-    modelIds.forEach(modelId => {
-      // Standard initialization for all models
-      this.models[modelId] = this.genAI.getGenerativeModel({
-        model: modelId,
-        safetySettings: this.getDefaultSafetySettings()
-      });
+  getTransportMode(): GeminiTransport['mode'] {
+    return this.transport.mode;
+  }
+
+  /**
+   * Fetch the models available to the API key, with their token limits, from the API's model listing
+   * The discovered models replace the static list used until then
+   * @throws GeminiError when the listing cannot be fetched
+   */
+  async discoverModels(signal?: AbortSignal): Promise<GeminiModel[]> {
+    const listings: ModelListing[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.withRetry(
+        requestSignal => this.fetchModelListingPage(pageToken, requestSignal),
+        { signal }
+      );
+      listings.push(...(page.models || []));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    const models = prepareDiscoveredModels(
+      listings
+        .map(createModelFromListing)
+        .filter((model): model is GeminiModel => model !== null)
+    );
+
+    if (models.length === 0) {
+      throw new GeminiError('invalid-response', 'The model listing did not include any Gemini chat models.');
+    }
+
+    this.availableModels = models;
+    return models;
+  }
+
+  /**
+   * Check that the API key (or the proxy's key) works, with a single request for one model listing
+   * Listing models is free, so this is a cheap way to test a key before saving it
+   * @throws GeminiError when the key is rejected or the API cannot be reached
+   */
+  async validateAccess(signal?: AbortSignal): Promise<void> {
+    const controller = new AbortController();
+    const abortFromCaller = () => controller.abort(signal?.reason);
+    const timer = setTimeout(() => controller.abort(), this.requestTimeout);
+    signal?.addEventListener('abort', abortFromCaller);
+
+    try {
+      await this.fetchModelListingPage(undefined, controller.signal, 1);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw controller.signal.aborted ? new TimeoutError(this.requestTimeout, { cause: error }) : toGeminiError(error);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  /**
+   * Fetch one page of the model listing
+   * Failures are thrown as SDK fetch errors so they are classified like those of generation requests
+   */
+  private async fetchModelListingPage(
+    pageToken: string | undefined,
+    signal: AbortSignal,
+    pageSize: number = 1000
+  ): Promise<{ models?: ModelListing[]; nextPageToken?: string }> {
+    const params = new URLSearchParams({ pageSize: String(pageSize) });
+    if (pageToken) {
+      params.set('pageToken', pageToken);
+    }
+
+    const response = await fetch(`${this.modelsEndpoint}?${params}`, {
+      headers: this.transport.mode === 'direct' ? { 'x-goog-api-key': this.transport.apiKey } : {},
+      signal
     });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new GoogleGenerativeAIFetchError(
+        body.error?.message || response.statusText,
+        response.status,
+        response.statusText,
+        body.error?.details
+      );
+    }
+
+    return response.json();
   }
 
   /**
    * Get default safety settings for all models
    */
   private getDefaultSafetySettings(): SafetySetting[] {
-    return [
-      {
-        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-      },
-      {
-        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-      },
-      {
-        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-      },
-      {
-        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-        threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-      },
-    ];
+    return SAFETY_CATEGORIES.map(({ category }) => ({
+      category,
+      threshold: DEFAULT_SAFETY_THRESHOLD
+    }));
+  }
+
+  /**
+   * Get the safety settings for a request, with per-category thresholds applied over the defaults
+   * Returns undefined when nothing is overridden, so the model's own settings are used
+   */
+  private buildSafetySettings(thresholds: SafetyThresholds = {}): SafetySetting[] | undefined {
+    if (Object.keys(thresholds).length === 0) {
+      return undefined;
+    }
+
+    return this.getDefaultSafetySettings().map(setting => ({
+      ...setting,
+      threshold: thresholds[setting.category] || setting.threshold
+    }));
   }
 
   /**
@@ -96,100 +268,741 @@ export class GeminiService {
   }
 
   /**
-   * Enhance a prompt with formatting instructions
-   * This encourages the model to use proper formatting in its responses
+   * Build the system instruction for a request from the formatting guidelines and the
+   * conversation's own instruction, so the user's prompt text is sent unchanged
    */
-  private enhancePromptWithFormatting(prompt: string, includeFormatting: boolean = true): string {
-    // If formatting instructions are disabled, return the prompt as is
-    if (!includeFormatting) {
-      return prompt;
-    }
-    
-    // Don't add formatting instructions for simple greetings or very short prompts
-    const simpleGreetings = ["hi", "hello", "hey", "hi there", "hello there", "hey there", "what's up", "how are you", "howdy"];
-    const trimmedPrompt = prompt.trim().toLowerCase();
-    
-    // Check if the prompt is a simple greeting or very short (less than 10 characters)
-    if (simpleGreetings.includes(trimmedPrompt) || prompt.length < 10) {
-      return prompt;
-    }
-    
-    const formattingInstructions = `
-When responding, please use proper formatting:
+  private buildSystemInstruction(includeFormatting: boolean, systemInstruction?: string): string | undefined {
+    const formattingInstructions = `When responding, use proper formatting:
 - Use markdown for text formatting (bold, italic, lists, etc.)
 - Use LaTeX for mathematical expressions (e.g., $E = mc^2$ for inline, or $$ \\frac{d}{dx}f(x) $$ for display)
 - Use code blocks with language specification for code snippets (e.g., \`\`\`python for Python code)
 - Use tables for tabular data
 - Use blockquotes for quotations
 
-Your response should be well-structured and visually appealing.
-`;
+Responses should be well-structured and visually appealing. Simple greetings and short questions can be answered briefly without extra structure.`;
 
-    return `${prompt}\n\n${formattingInstructions}`;
+    const parts = [
+      systemInstruction?.trim(),
+      includeFormatting ? formattingInstructions : undefined
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join('\n\n') : undefined;
   }
 
   /**
-   * Generate content with a prompt
+   * Roughly estimate the number of tokens in a piece of text (about 4 characters per token)
+   */
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Roughly estimate the number of tokens used by a conversation turn, including its attachments
+   * Images cost a fixed 258 tokens; other files are estimated from their decoded size
+   */
+  private estimateTurnTokens(turn: ConversationTurn): number {
+    const attachmentTokens = (turn.attachments || []).reduce((total, attachment) => {
+      return total + (attachment.mimeType.startsWith('image/') ? 258 : Math.ceil(attachment.size / 4));
+    }, 0);
+
+    return this.estimateTokens(turn.content) + attachmentTokens;
+  }
+
+  /**
+   * Convert a conversation turn into request parts, sending attachments as inline data
+   */
+  private toParts(turn: ConversationTurn): Part[] {
+    const parts: Part[] = (turn.attachments || []).map(attachment => ({
+      inlineData: { mimeType: attachment.mimeType, data: attachment.data }
+    }));
+
+    if (turn.content.trim()) {
+      parts.push({ text: turn.content });
+    }
+
+    return parts;
+  }
+
+  /**
+   * Turn generation settings into a generation config the model accepts
+   * Unset values are left out so the model defaults apply, and out-of-range values are clamped
+   * Candidate count is only honoured by generateCandidates, since the other calls read a single response
+   * Thinking models are always asked to include their thoughts, so they can be shown apart from the answer
+   */
+  private buildGenerationConfig(modelId: string, settings: GenerationSettings = {}): GenerationConfig | undefined {
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+    const { maxOutputTokens, supportsThinking } = this.getModelInfo(modelId);
+    const config: ThinkingGenerationConfig = {};
+
+    if (settings.temperature !== undefined) {
+      config.temperature = clamp(settings.temperature, 0, 2);
+    }
+    if (settings.topP !== undefined) {
+      config.topP = clamp(settings.topP, 0, 1);
+    }
+    if (settings.topK !== undefined) {
+      config.topK = Math.max(1, Math.round(settings.topK));
+    }
+    if (settings.maxOutputTokens !== undefined) {
+      config.maxOutputTokens = clamp(Math.round(settings.maxOutputTokens), 1, maxOutputTokens || settings.maxOutputTokens);
+    }
+
+    const stopSequences = (settings.stopSequences || []).filter(sequence => sequence.length > 0);
+    if (stopSequences.length > 0) {
+      config.stopSequences = stopSequences.slice(0, this.maxStopSequences);
+    }
+
+    // Thinking models return their reasoning separately from the answer when asked to
+    if (supportsThinking) {
+      config.thinkingConfig = { includeThoughts: true };
+      if (settings.thinkingBudget !== undefined) {
+        config.thinkingConfig.thinkingBudget = clamp(Math.round(settings.thinkingBudget), -1, this.maxThinkingBudget);
+      }
+    }
+
+    return Object.keys(config).length > 0 ? config : undefined;
+  }
+
+  /**
+   * Build a generation request with its system instruction, contents and generation config
+   */
+  private buildRequest(
+    prompt: string,
+    modelId: string,
+    includeFormatting: boolean,
+    options: GenerationOptions = {},
+    trimHistory: boolean = true
+  ): GenerateContentRequest {
+    const systemInstruction = this.buildSystemInstruction(includeFormatting, options.systemInstruction);
+    const reservedTokens = systemInstruction ? this.estimateTokens(systemInstruction) : 0;
+
+    return {
+      contents: this.buildContents(prompt, modelId, options, trimHistory ? reservedTokens : -Infinity),
+      systemInstruction,
+      generationConfig: this.buildGenerationConfig(modelId, options.generationSettings),
+      safetySettings: this.buildSafetySettings(options.safetyThresholds)
+    };
+  }
+
+  /**
+   * Build the request contents from the conversation history and the new prompt
+   * History is trimmed from the oldest turn so the request fits the model's input limit
+   * @param reservedTokens Tokens already taken by the system instruction, or -Infinity to keep the whole history
+   */
+  private buildContents(prompt: string, modelId: string, options: GenerationOptions = {}, reservedTokens: number = 0): Content[] {
+    const { history = [], attachments = [] } = options;
+    const canSendAttachments = supportsAttachments(modelId);
+
+    if (attachments.length > 0 && !canSendAttachments) {
+      throw new Error(`Model ${modelId} does not support attachments`);
+    }
+
+    const promptTurn: ConversationTurn = {
+      role: 'user',
+      content: prompt,
+      attachments
+    };
+    const maxInputTokens = this.getModelInfo(modelId).maxInputTokens || this.defaultMaxInputTokens;
+    let remainingTokens = maxInputTokens - reservedTokens - this.estimateTurnTokens(promptTurn);
+
+    // Walk backwards from the most recent turn, keeping as many turns as fit
+    const keptTurns: ConversationTurn[] = [];
+    for (let i = history.length - 1; i >= 0; i--) {
+      // Earlier attachments are dropped for models that cannot read them
+      const turn = canSendAttachments ? history[i] : { ...history[i], attachments: undefined };
+      if (!turn.content.trim() && !turn.attachments?.length) continue;
+
+      remainingTokens -= this.estimateTurnTokens(turn);
+      if (remainingTokens < 0) break;
+
+      keptTurns.unshift(turn);
+    }
+
+    // The conversation sent to the model must start with a user turn
+    while (keptTurns.length > 0 && keptTurns[0].role !== 'user') {
+      keptTurns.shift();
+    }
+
+    const contents: Content[] = [];
+    [...keptTurns, promptTurn].forEach(turn => {
+      const role = turn.role === 'assistant' ? 'model' : 'user';
+      const previous = contents[contents.length - 1];
+
+      // Merge consecutive turns from the same role (e.g. after a stopped response)
+      if (previous && previous.role === role) {
+        previous.parts.push(...this.toParts(turn));
+      } else {
+        contents.push({ role, parts: this.toParts(turn) });
+      }
+    });
+
+    return contents;
+  }
+
+  /**
+   * Roughly estimate the number of tokens in request contents
+   */
+  private estimateContentsTokens(contents: Content[]): number {
+    return contents.reduce((total, content) => total + content.parts.reduce((partTotal, part) => {
+      if (part.text) return partTotal + this.estimateTokens(part.text);
+      if (part.inlineData) {
+        return partTotal + (part.inlineData.mimeType.startsWith('image/') ? 258 : Math.ceil(part.inlineData.data.length * 3 / 16));
+      }
+      return partTotal;
+    }, 0), 0);
+  }
+
+  /**
+   * Cut text down to a number of characters, keeping its start and end
+   * The end is kept because prompts usually close with the question or instructions
+   */
+  private truncateText(text: string, maxLength: number): string {
+    if (text.length <= maxLength) return text;
+
+    const marker = '\n\n[... content truncated to fit the model\'s context window ...]\n\n';
+    const available = Math.max(maxLength - marker.length, 0);
+    const tailLength = Math.floor(available / 3);
+
+    return text.slice(0, available - tailLength) + marker + text.slice(text.length - tailLength);
+  }
+
+  /**
+   * Shrink a request's contents by a ratio, dropping the oldest turns first
+   * and truncating the longest text of the prompt when it is all that is left
+   */
+  private shrinkRequest(request: GenerateContentRequest, ratio: number): GenerateContentRequest {
+    // Aim a little lower than the ratio, since the size is only estimated
+    const targetTokens = Math.floor(this.estimateContentsTokens(request.contents) * ratio * 0.9);
+    const contents = [...request.contents];
+
+    while (contents.length > 1 && this.estimateContentsTokens(contents) > targetTokens) {
+      contents.shift();
+
+      // The conversation sent to the model must start with a user turn
+      while (contents.length > 1 && contents[0].role !== 'user') {
+        contents.shift();
+      }
+    }
+
+    const overflow = this.estimateContentsTokens(contents) - targetTokens;
+    if (overflow > 0) {
+      const prompt = contents[contents.length - 1];
+      const longestPart = prompt.parts.reduce<Part | undefined>(
+        (longest, part) => (part.text?.length || 0) > (longest?.text?.length || 0) ? part : longest,
+        undefined
+      );
+
+      if (longestPart?.text) {
+        const truncated = this.truncateText(longestPart.text, longestPart.text.length - overflow * 4);
+        contents[contents.length - 1] = {
+          ...prompt,
+          parts: prompt.parts.map(part => part === longestPart ? { text: truncated } : part)
+        };
+      }
+    }
+
+    return { ...request, contents };
+  }
+
+  /**
+   * Number of characters of scraped page content to include per search result in a DeepSearch prompt,
+   * so that the results share about half of the model's input window
    */
-  async generateContent(prompt: string, modelId: string, includeFormatting: boolean = true): Promise<string> {
+  private getScrapedContentLength(modelId: string, resultCount: number): number {
+    const maxInputTokens = this.getModelInfo(modelId).maxInputTokens || this.defaultMaxInputTokens;
+    return Math.floor((maxInputTokens * 0.5 * 4) / Math.max(resultCount, 1));
+  }
+
+  /**
+   * Count the input tokens of a request with the API
+   */
+  private async countRequestTokens(request: GenerateContentRequest, modelId: string, signal?: AbortSignal): Promise<number> {
+    const model = this.getModelById(modelId);
+    const { totalTokens } = await this.withRetry(
+      requestSignal => model.countTokens({ generateContentRequest: request }, { signal: requestSignal }),
+      { signal, modelId }
+    );
+    return totalTokens;
+  }
+
+  /**
+   * Build a generation request and make sure it fits the model's input window
+   * History is first trimmed with a local estimate, which can be well off (e.g. for code or non-Latin text),
+   * so requests that come close to the limit are counted with the API and shrunk until they fit
+   */
+  private async prepareRequest(
+    prompt: string,
+    modelId: string,
+    includeFormatting: boolean,
+    options: GenerationOptions = {}
+  ): Promise<GenerateContentRequest> {
+    let request = this.buildRequest(prompt, modelId, includeFormatting, options);
+    const maxInputTokens = this.getModelInfo(modelId).maxInputTokens || this.defaultMaxInputTokens;
+    const systemTokens = typeof request.systemInstruction === 'string' ? this.estimateTokens(request.systemInstruction) : 0;
+
+    // Counting costs a round trip, so requests well inside the window are sent as they are
+    if (systemTokens + this.estimateContentsTokens(request.contents) < maxInputTokens * this.tokenCountThreshold) {
+      return request;
+    }
+
+    for (let attempt = 0; attempt < this.maxFitAttempts; attempt++) {
+      let totalTokens: number;
+      try {
+        totalTokens = await this.countRequestTokens(request, modelId, options.signal);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+
+        console.warn('Could not count tokens, sending the request as estimated:', error);
+        return request;
+      }
+
+      if (totalTokens <= maxInputTokens) {
+        return request;
+      }
+
+      console.warn(`Request has ${totalTokens} tokens, over the ${maxInputTokens} token limit of ${modelId}; shrinking it`);
+      request = this.shrinkRequest(request, maxInputTokens / totalTokens);
+    }
+
+    return request;
+  }
+
+  /**
+   * Count the tokens a message would use with the conversation history, without trimming the history
+   * @returns The token count from the API, or a local estimate when the API could not be reached
+   */
+  async countTokens(
+    prompt: string,
+    modelId: string,
+    includeFormatting: boolean = true,
+    options: GenerationOptions = {}
+  ): Promise<TokenCount> {
+    const built = this.buildRequest(prompt, modelId, includeFormatting, options, false);
+    // An empty draft leaves an empty prompt turn, which the API would reject
+    const request = { ...built, contents: built.contents.filter(content => content.parts.length > 0) };
+    const maxInputTokens = this.getModelInfo(modelId).maxInputTokens || this.defaultMaxInputTokens;
+
     try {
-      console.log(`Generating content with model: ${modelId}`);
-      
-      const model = this.getModelById(modelId);
-      
-      // Add formatting to the prompt if requested
-      const formattedPrompt = includeFormatting 
-        ? this.enhancePromptWithFormatting(prompt) 
-        : prompt;
-      
-      // For the thinking model, handle thinking capabilities
-      if (modelId === 'gemini-2.0-flash-thinking-exp') {
-        // Use standard generateContent but with thinking flag in the prompt
-        // The thinking capabilities are enabled in API parameter called "system"
-        // which is communicated through prompt format
-        const enhancedPrompt = `#thinking
-${formattedPrompt}`;
-        
-        const result = await model.generateContent(enhancedPrompt);
-        const response = result.response;
-        const mainText = response.text();
-        
-        // The thinking process will be included in the response
-        // Often in a format like "Thinking: <process> Answer: <answer>"
-        return this.formatLatexExpressions(mainText);
+      const totalTokens = await this.countRequestTokens(request, modelId, options.signal);
+      return { totalTokens, maxInputTokens, estimated: false };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+
+      const systemTokens = typeof request.systemInstruction === 'string' ? this.estimateTokens(request.systemInstruction) : 0;
+      return {
+        totalTokens: systemTokens + this.estimateContentsTokens(request.contents),
+        maxInputTokens,
+        estimated: true
+      };
+    }
+  }
+
+  /**
+   * Separate the thought parts of a response candidate from its answer
+   */
+  private splitThoughts(parts: Part[] = []): { text: string; thoughts: string } {
+    let text = '';
+    let thoughts = '';
+
+    parts.forEach((part: ThoughtPart) => {
+      if (!part.text) return;
+
+      if (part.thought) {
+        thoughts += part.text;
       } else {
-        // Standard content generation for other models
-        const result = await model.generateContent(formattedPrompt);
-        const response = result.response;
-        return this.formatLatexExpressions(response.text());
+        text += part.text;
       }
+    });
+
+    return { text, thoughts };
+  }
+
+  /**
+   * Report the usage metadata of a model call through the caller's onUsage callback
+   * @param startedAt When the call that produced the response was sent
+   */
+  private reportUsage(
+    options: GenerationOptions,
+    modelId: string,
+    operation: UsageOperation,
+    usage: ThinkingUsageMetadata | undefined,
+    startedAt: number
+  ): void {
+    if (!options.onUsage) return;
+
+    const promptTokens = usage?.promptTokenCount ?? 0;
+    // Thinking tokens are billed as output, so they count as response tokens
+    const responseTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+
+    options.onUsage({
+      modelId,
+      operation,
+      promptTokens,
+      responseTokens,
+      totalTokens: usage?.totalTokenCount ?? promptTokens + responseTokens,
+      latencyMs: Date.now() - startedAt,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Run an API call with a timeout, retrying retryable failures with exponential backoff
+   * The call receives a signal that aborts on cancellation or timeout, and a keepAlive callback
+   * that restarts the timeout, so streams only time out when chunks stop arriving
+   * @param canRetry Checked before retrying, e.g. so a stream that already produced output is not restarted
+   * @throws GeminiError for every failure except cancellation, which rethrows the original error
+   */
+  private async withRetry<T>(
+    call: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+    options: { signal?: AbortSignal; modelId?: string; canRetry?: () => boolean } = {}
+  ): Promise<T> {
+    const { signal, modelId, canRetry = () => true } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const abortFromCaller = () => controller.abort(signal?.reason);
+      let timedOut = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const keepAlive = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, this.requestTimeout);
+      };
+
+      signal?.throwIfAborted();
+      signal?.addEventListener('abort', abortFromCaller);
+      keepAlive();
+
+      try {
+        return await call(controller.signal, keepAlive);
+      } catch (error) {
+        // Cancellation is not a failure, so let it through untouched
+        if (signal?.aborted) {
+          throw error;
+        }
+
+        const geminiError = timedOut ? new TimeoutError(this.requestTimeout, { cause: error }) : toGeminiError(error, modelId);
+        const delay = geminiError.retryAfter ?? this.retryBaseDelay * 2 ** attempt;
+
+        if (!geminiError.retryable || attempt >= this.maxRetries || delay > this.maxRetryDelay || !canRetry()) {
+          throw geminiError;
+        }
+
+        console.warn(`Gemini API ${geminiError.code} error, retrying in ${delay}ms (retry ${attempt + 1} of ${this.maxRetries})`);
+        // Jitter keeps parallel requests (e.g. DeepSearch rounds) from retrying in lockstep
+        await wait(delay + Math.random() * this.retryBaseDelay, signal);
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abortFromCaller);
+      }
+    }
+  }
+
+  /**
+   * Generate content with a prompt
+   * @throws GeminiError when the request fails or is blocked
+   */
+  async generateContent(
+    prompt: string,
+    modelId: string,
+    includeFormatting: boolean = true,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    console.log(`Generating content with model: ${modelId}`);
+
+    const model = this.getModelById(modelId);
+    const request = await this.prepareRequest(prompt, modelId, includeFormatting, options);
+
+    try {
+      return await this.withRetry(async (signal) => {
+        const startedAt = Date.now();
+        const result = await model.generateContent(request, { signal });
+        this.reportUsage(options, modelId, 'generate', result.response.usageMetadata, startedAt);
+
+        const blockInfo = getBlockedResponseInfo(result.response);
+        if (blockInfo) {
+          throw new BlockedResponseError(blockInfo);
+        }
+
+        const { text, thoughts } = this.splitThoughts(result.response.candidates?.[0]?.content?.parts);
+        if (thoughts) {
+          options.onThought?.(thoughts);
+        }
+
+        return this.formatLatexExpressions(text);
+      }, { signal: options.signal, modelId });
     } catch (error) {
-      console.error('Error generating content:', error);
-      
-      if (error instanceof Error) {
-        throw new Error(`Failed to generate content: ${error.message}`);
+      if (!options.signal?.aborted) {
+        console.error('Error generating content:', error);
       }
-      
-      throw new Error('Failed to generate content');
+      throw error;
+    }
+  }
+
+  /**
+   * Generate content with a prompt, streaming the response as it arrives
+   * Failed requests are only retried until the first chunk arrives
+   * @param onChunk Called with the accumulated response text every time a new chunk arrives
+   * @returns The complete response text
+   * @throws GeminiError when the request fails or is blocked
+   */
+  async generateContentStream(
+    prompt: string,
+    modelId: string,
+    onChunk: (text: string) => void,
+    includeFormatting: boolean = true,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    console.log(`Streaming content with model: ${modelId}`);
+
+    const model = this.getModelById(modelId);
+    const request = await this.prepareRequest(prompt, modelId, includeFormatting, options);
+    let fullText = '';
+    let fullThoughts = '';
+
+    try {
+      return await this.withRetry(async (signal, keepAlive) => {
+        const startedAt = Date.now();
+        const result = await model.generateContentStream(request, { signal });
+        // Every chunk carries the usage so far, so the last one has the totals
+        let usage: UsageMetadata | undefined;
+
+        for await (const chunk of result.stream) {
+          signal.throwIfAborted();
+          keepAlive();
+          usage = chunk.usageMetadata || usage;
+
+          // The stream stops at the chunk that was blocked; what arrived before it has already been reported
+          const blockInfo = getBlockedResponseInfo(chunk);
+          if (blockInfo) {
+            throw new BlockedResponseError(blockInfo);
+          }
+
+          const { text, thoughts } = this.splitThoughts(chunk.candidates?.[0]?.content?.parts);
+          if (thoughts) {
+            fullThoughts += thoughts;
+            options.onThought?.(fullThoughts);
+          }
+          if (text) {
+            fullText += text;
+            onChunk(this.formatLatexExpressions(fullText));
+          }
+        }
+
+        this.reportUsage(options, modelId, 'stream', usage, startedAt);
+        return this.formatLatexExpressions(fullText);
+      }, { signal: options.signal, modelId, canRetry: () => fullText === '' && fullThoughts === '' });
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error('Error streaming content:', error);
+      }
+      throw error;
     }
   }
 
+  /**
+   * Generate several alternative responses to the same prompt in one request
+   * The number of responses comes from options.generationSettings.candidateCount
+   * @returns The text of each candidate, in the order the model returned them
+   * @throws GeminiError when the request fails or every candidate is blocked
+   */
+  async generateCandidates(
+    prompt: string,
+    modelId: string,
+    includeFormatting: boolean = true,
+    options: GenerationOptions = {}
+  ): Promise<string[]> {
+    const candidateCount = Math.min(Math.max(Math.round(options.generationSettings?.candidateCount || 1), 1), this.maxCandidateCount);
+    console.log(`Generating ${candidateCount} candidates with model: ${modelId}`);
+
+    const model = this.getModelById(modelId);
+    const request = await this.prepareRequest(prompt, modelId, includeFormatting, options);
+
+    try {
+      return await this.withRetry(async (signal) => {
+        const startedAt = Date.now();
+        const result = await model.generateContent(
+          {
+            ...request,
+            generationConfig: { ...request.generationConfig, candidateCount }
+          },
+          { signal }
+        );
+        this.reportUsage(options, modelId, 'candidates', result.response.usageMetadata, startedAt);
+
+        const responseCandidates = (result.response.candidates || []).map(candidate => this.splitThoughts(candidate.content?.parts));
+        if (responseCandidates[0]?.thoughts) {
+          options.onThought?.(responseCandidates[0].thoughts);
+        }
+
+        const candidates = responseCandidates
+          .map(({ text }) => text)
+          .filter(text => text.trim().length > 0)
+          .map(text => this.formatLatexExpressions(text));
+
+        if (candidates.length === 0) {
+          const blockInfo = getBlockedResponseInfo(result.response);
+          if (blockInfo) {
+            throw new BlockedResponseError(blockInfo);
+          }
+          // e.g. a thinking model that only returned thought parts; failing lets the user retry
+          throw new GeminiError('invalid-response', 'The model returned no answer text');
+        }
+
+        return candidates;
+      }, { signal: options.signal, modelId });
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error('Error generating candidates:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a JSON response that matches a schema
+   * The schema is sent as the response schema, and the parsed result is validated against it;
+   * output that fails validation is retried with the validation error fed back to the model
+   * @param outputSchema Schema built with the `schema` helpers, from which the result type is derived
+   * @returns The validated response object
+   * @throws GeminiError when the request fails, or with code 'invalid-response' when no attempt matched the schema
+   */
+  async generateStructured<T>(
+    prompt: string,
+    outputSchema: StructuredSchema<T>,
+    modelId: string,
+    options: StructuredGenerationOptions = {}
+  ): Promise<T> {
+    // Sampling settings are meant for chat replies, not for the app's own structured calls
+    const { maxAttempts = 3, generationSettings: _generationSettings, ...generationOptions } = options;
+    const model = this.getModelById(modelId);
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Tell the model what was wrong with its previous answer
+      const attemptPrompt = lastError instanceof Error
+        ? `${prompt}\n\nYour previous response was invalid (${lastError.message}). Respond again with JSON that matches the schema exactly.`
+        : prompt;
+      const request: GenerateContentRequest = {
+        ...(await this.prepareRequest(attemptPrompt, modelId, false, generationOptions)),
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema: outputSchema.responseSchema
+        }
+      };
+
+      // API failures are retried by withRetry and thrown from here as they are
+      const responseText = await this.withRetry(async (signal) => {
+        const startedAt = Date.now();
+        const result = await model.generateContent(request, { signal });
+        this.reportUsage(options, modelId, 'structured', result.response.usageMetadata, startedAt);
+        return result.response.text();
+      }, { signal: options.signal, modelId });
+
+      try {
+        return outputSchema.validate(JSON.parse(responseText), 'response');
+      } catch (error) {
+        // Only malformed output is worth asking again for
+        if (!(error instanceof SyntaxError) && !(error instanceof SchemaValidationError)) {
+          throw error;
+        }
+
+        console.warn(`Structured output attempt ${attempt} of ${maxAttempts} was invalid:`, error.message);
+        lastError = error;
+      }
+    }
+
+    throw new GeminiError(
+      'invalid-response',
+      `The model did not return valid structured output: ${lastError instanceof Error ? lastError.message : 'invalid response'}`
+    );
+  }
+
+  /**
+   * Get the ID of the model embeddings are generated with
+   * Embeddings from different models cannot be compared, so stored embeddings are keyed to it
+   */
+  getEmbeddingModelId(): string {
+    return this.embeddingModel;
+  }
+
   /**
    * Generate embeddings for text using the Gemini embedding model
    * @param text The text to generate embeddings for
+   * @param options Abort signal and what the embedding is used for
    * @returns An array of embedding values
+   * @throws GeminiError when the request fails
    */
-  async generateEmbeddings(text: string): Promise<number[]> {
+  async generateEmbeddings(text: string, options: EmbeddingOptions = {}): Promise<number[]> {
     try {
-      const model = this.genAI.getGenerativeModel({ model: this.embeddingModel });
-      const result = await model.embedContent(text);
+      const model = this.genAI.getGenerativeModel({ model: this.embeddingModel }, this.requestOptions);
+      const result = await this.withRetry(
+        (signal) => model.embedContent(this.buildEmbedRequest(text, options), { signal }),
+        { signal: options.signal, modelId: this.embeddingModel }
+      );
       return result.embedding.values;
     } catch (error) {
-      console.error('Error generating embeddings:', error);
-      throw new Error(`Error generating embeddings: ${error instanceof Error ? error.message : String(error)}`);
+      if (!options.signal?.aborted) {
+        console.error('Error generating embeddings:', error);
+      }
+      throw error;
     }
   }
 
+  /**
+   * Generate embeddings for several texts, in as few requests as the API allows
+   * @returns The embedding values of each text, in the order given
+   * @throws GeminiError when a request fails
+   */
+  async generateEmbeddingsBatch(texts: string[], options: EmbeddingOptions = {}): Promise<number[][]> {
+    const model = this.genAI.getGenerativeModel({ model: this.embeddingModel }, this.requestOptions);
+    const embeddings: number[][] = [];
+
+    try {
+      for (let start = 0; start < texts.length; start += this.maxEmbeddingBatchSize) {
+        const batch = texts.slice(start, start + this.maxEmbeddingBatchSize);
+        const result = await this.withRetry(
+          (signal) => model.batchEmbedContents({
+            requests: batch.map(text => this.buildEmbedRequest(text, options))
+          }, { signal }),
+          { signal: options.signal, modelId: this.embeddingModel }
+        );
+
+        if (result.embeddings.length !== batch.length) {
+          throw new GeminiError('invalid-response', 'The embedding model returned a different number of embeddings than requested');
+        }
+
+        embeddings.push(...result.embeddings.map(embedding => embedding.values));
+      }
+
+      return embeddings;
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error('Error generating embeddings:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build an embedding request for a text, tagged with what the embedding is for
+   */
+  private buildEmbedRequest(text: string, options: EmbeddingOptions) {
+    const taskType = options.purpose === 'query'
+      ? TaskType.RETRIEVAL_QUERY
+      : options.purpose === 'document'
+        ? TaskType.RETRIEVAL_DOCUMENT
+        : undefined;
+
+    return {
+      content: { role: 'user', parts: [{ text }] },
+      ...(taskType && { taskType })
+    };
+  }
+
   /**
    * Calculate cosine similarity between two embedding vectors
    * @param embedding1 First embedding vector
@@ -224,8 +1037,15 @@ ${formattedPrompt}`;
   /**
    * Perform a web search and generate a response based on the results
    * Uses an iterative approach where Gemini evaluates search results and requests additional searches if needed
+   * Pass options.onProgress to observe the thinking process as each stage and search round advances
    */
-  async generateWithWebSearch(query: string, modelId: string): Promise<{text: string, searchResults: SearchResult[], thinkingProcess?: ThinkingProcess}> {
+  async generateWithWebSearch(
+    query: string,
+    modelId: string,
+    options: WebSearchOptions = {}
+  ): Promise<{text: string, searchResults: SearchResult[], thinkingProcess?: ThinkingProcess}> {
+    const { signal, history, attachments, systemInstruction, generationSettings, safetyThresholds, onProgress, onUsage, onThought } = options;
+    
     try {
       console.log('Starting web search for query:', query, 'with model:', modelId);
       
@@ -243,6 +1063,11 @@ ${formattedPrompt}`;
         informationGaps: [],
         progress: 0 // Start with 0% progress
       };
+      
+      // Push a snapshot of the thinking process to the observer whenever the pipeline advances
+      const reportProgress = () => {
+        onProgress?.(structuredClone(thinkingProcess));
+      };
 
       // STAGE 1: QUERY UNDERSTANDING (0-20% progress)
       thinkingProcess.steps.push({
@@ -265,6 +1090,7 @@ ${formattedPrompt}`;
         thought: `Analyzing query: "${query}"`,
         action: "Determining search intent, domain, and entities for optimal search strategy"
       });
+      reportProgress();
 
       // Identify query domain, type, entities, and other metadata
       let queryDomain = "general";
@@ -289,38 +1115,10 @@ Analyze this search query and identify:
 8. Potential information sources (academic, news, technical documentation, etc.)
 
 Query: "${query}"
+${history?.length ? '\nIf the query refers to earlier parts of the conversation, resolve those references when identifying entities.\n' : ''}`;
 
-Return ONLY a valid JSON object with the following format (no markdown, no code blocks, just the JSON):
-{
-  "domain": "string",
-  "queryType": "string",
-  "entities": ["string"],
-  "temporalAspect": "string",
-  "queryIntent": "string",
-  "subtopics": ["string"],
-  "searchStrategy": "string",
-  "potentialSources": ["string"]
-}`;
-
-        const domainAnalysis = await this.generateContent(domainAnalysisPrompt, modelId);
-        
-        // Clean up the response to ensure it's valid JSON
-        let cleanedResponse = domainAnalysis;
-        
-        // Remove any markdown code block indicators
-        cleanedResponse = cleanedResponse.replace(/```json\s*/g, '');
-        cleanedResponse = cleanedResponse.replace(/```\s*/g, '');
-        
-        // Remove any leading/trailing whitespace
-        cleanedResponse = cleanedResponse.trim();
-        
-        // Try to find JSON object in the response
-        const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          cleanedResponse = jsonMatch[0];
-        }
-        
-        const parsedAnalysis = JSON.parse(cleanedResponse);
+        // The history lets follow-up queries ("what about its price?") resolve to the right entities
+        const parsedAnalysis = await this.generateStructured(domainAnalysisPrompt, domainAnalysisSchema, modelId, { signal, history, onUsage });
         queryDomain = parsedAnalysis.domain || queryDomain;
         queryType = parsedAnalysis.queryType || queryType;
         entities = parsedAnalysis.entities || entities;
@@ -328,17 +1126,14 @@ Return ONLY a valid JSON object with the following format (no markdown, no code
         queryIntent = parsedAnalysis.queryIntent || queryIntent;
         searchStrategy = parsedAnalysis.searchStrategy || searchStrategy;
         
-        // Add subtopics to thinking process if available
-        if (parsedAnalysis.subtopics && Array.isArray(parsedAnalysis.subtopics)) {
-          thinkingProcess.subtopics = parsedAnalysis.subtopics;
-        }
-        
-        // Add potential sources to thinking process
-        if (parsedAnalysis.potentialSources && Array.isArray(parsedAnalysis.potentialSources)) {
-          thinkingProcess.potentialSources = parsedAnalysis.potentialSources;
-        }
+        // Add subtopics and potential sources to thinking process
+        thinkingProcess.subtopics = parsedAnalysis.subtopics;
+        thinkingProcess.potentialSources = parsedAnalysis.potentialSources;
       } catch (e) {
-        console.warn("Failed to parse domain analysis, using defaults", e);
+        // Don't fall back to heuristics when the user stopped the search
+        signal?.throwIfAborted();
+        
+        console.warn("Failed to analyze query, using defaults", e);
         
         // Fallback domain detection for common queries
         if (query.toLowerCase().includes("when") || 
@@ -378,6 +1173,7 @@ Return ONLY a valid JSON object with the following format (no markdown, no code
         thought: `Query is in ${queryDomain} domain, of type ${queryType}, with intent ${queryIntent}`,
         action: "Formulating multi-stage search strategy similar to Perplexity's approach"
       });
+      reportProgress();
 
       // STAGE 2: SEARCH PLANNING (20-40% progress)
       thinkingProcess.steps.push({
@@ -395,12 +1191,13 @@ Return ONLY a valid JSON object with the following format (no markdown, no code
         totalStages: 5,
         percentComplete: 25
       };
+      reportProgress();
       
       // Generate search plan using LLM - similar to how Perplexity uses GPT-4o to plan searches
       const searchPlanPrompt = `You are an expert search planner for an AI system similar to Perplexity.
 
 For the query: "${query}"
-
+${history?.length ? '\nEach search query must be self-contained: replace references to earlier parts of the conversation with the actual names.\n' : ''}
 Domain: ${queryDomain}
 Query type: ${queryType}
 Entities: ${entities.join(', ')}
@@ -409,33 +1206,12 @@ Intent: ${queryIntent}
 Create a comprehensive search plan that includes:
 1. A list of 3-5 specific search queries to gather information (from most specific to most general)
 2. Key information that needs to be found for each query
-3. A strategy for synthesizing the information into a coherent answer
-
-Return ONLY a valid JSON object with the following format:
-{
-  "searchQueries": [
-    {
-      "query": "string",
-      "purpose": "string",
-      "expectedInformation": "string"
-    }
-  ],
-  "informationNeeds": ["string"],
-  "synthesisStrategy": "string"
-}`;
+3. A strategy for synthesizing the information into a coherent answer`;
 
-      const searchPlanResponse = await this.generateContent(searchPlanPrompt, modelId);
-      let searchPlan;
+      let searchPlan: InferSchema<typeof searchPlanSchema>;
       
       try {
-        // Clean and parse the search plan
-        let cleanedPlanResponse = searchPlanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
-        const jsonMatch = cleanedPlanResponse.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          cleanedPlanResponse = jsonMatch[0];
-        }
-        
-        searchPlan = JSON.parse(cleanedPlanResponse);
+        searchPlan = await this.generateStructured(searchPlanPrompt, searchPlanSchema, modelId, { signal, history, onUsage });
         
         // Update progress to show stage 2 is complete
         thinkingProcess.progress = 40;
@@ -454,7 +1230,10 @@ Return ONLY a valid JSON object with the following format:
           outcome: `Search plan created with information needs: ${searchPlan.informationNeeds.join(', ')}`
         });
       } catch (e) {
-        console.warn("Failed to parse search plan, using default approach", e);
+        // Don't fall back to the default plan when the user stopped the search
+        signal?.throwIfAborted();
+        
+        console.warn("Failed to generate search plan, using default approach", e);
         searchPlan = {
           searchQueries: [
             { query: query, purpose: "Main search", expectedInformation: "Primary information" },
@@ -465,6 +1244,7 @@ Return ONLY a valid JSON object with the following format:
           synthesisStrategy: "Combine information from all sources, prioritizing authoritative and recent sources"
         };
       }
+      reportProgress();
 
       // STAGE 3: ITERATIVE SEARCH EXECUTION (40-70% progress)
       thinkingProcess.steps.push({
@@ -487,6 +1267,7 @@ Return ONLY a valid JSON object with the following format:
       let allSearchResults: SearchResult[] = [];
       const maxRounds = Math.min(searchPlan.searchQueries.length, this.maxSearchRounds);
       let searchInsights: {query: string, findings: string}[] = [];
+      let completedRounds = 0;
       
       // Implement parallel data fetching for search queries - similar to Next.js Promise.all pattern
       // This is more efficient than sequential fetching and closer to how Perplexity works
@@ -495,32 +1276,40 @@ Return ONLY a valid JSON object with the following format:
         action: "Executing multiple search queries simultaneously for efficiency",
         outcome: "Will combine results from all queries for comprehensive coverage"
       });
+      reportProgress();
       
       // Create an array of search promises
       const searchPromises = searchPlan.searchQueries.slice(0, maxRounds).map(async (searchQueryObj: { query: string, purpose: string, expectedInformation: string }, index: number) => {
         const roundNumber = index + 1;
         const currentSearchQuery = searchQueryObj.query;
         
-        // Add search round to thinking process
-        thinkingProcess.steps.push({
+        // Add search round to thinking process, remembering its step since rounds run in parallel
+        const roundStep: ThinkingStep = {
           type: 'search',
           content: `Search round ${roundNumber}: "${currentSearchQuery}" - Purpose: ${searchQueryObj.purpose}`,
           status: 'in_progress'
-        });
+        };
+        thinkingProcess.steps.push(roundStep);
         
         // Add search query to the list
         if (!thinkingProcess.searchQueries?.includes(currentSearchQuery)) {
           thinkingProcess.searchQueries?.push(currentSearchQuery);
         }
+        reportProgress();
         
         // Perform the search
-        const searchResults = await this.performWebSearch(currentSearchQuery, queryDomain);
+        const searchResults = await this.performWebSearch(currentSearchQuery, queryDomain, signal);
         
-        // Update thinking process for this round
-        const stepIndex = thinkingProcess.steps.length - 1;
-        thinkingProcess.steps[stepIndex].status = 'complete';
+        // Update thinking process for this round and show the sources found so far
+        roundStep.status = 'complete';
+        thinkingProcess.searchResults = this.removeDuplicateResults([
+          ...(thinkingProcess.searchResults || []),
+          ...searchResults
+        ]);
+        reportProgress();
         
         // Analyze search results for this round
+        const scrapedContentLength = this.getScrapedContentLength(modelId, searchResults.length);
         const searchAnalysisPrompt = `You are an expert search analyst for an AI system similar to Perplexity.
 
 ### CRITICAL INSTRUCTION: YOU MUST ANALYZE ALL ${searchResults.length} SEARCH RESULTS LISTED BELOW, NOT JUST THE FIRST FEW.
@@ -541,7 +1330,7 @@ ${searchResults.map((result, idx) => {
   if (result.enhancedContent) {
     resultText += `\n  
   ## SCRAPED WEBPAGE CONTENT:
-  ${result.enhancedContent.summary || ''}
+  ${this.truncateText(result.enhancedContent.summary || '', scrapedContentLength)}
   
   ## EXTRACTED DATES:
   ${result.enhancedContent.extractedDates?.join(', ') || 'None found'}
@@ -596,7 +1385,19 @@ Your final analysis must explicitly show your reasoning process through all four
 
 Format your response as a detailed analysis that explicitly references information from ALL ${searchResults.length} results.`;
 
-        const searchAnalysis = await this.generateContent(searchAnalysisPrompt, modelId);
+        const searchAnalysis = await this.generateContent(searchAnalysisPrompt, modelId, true, { signal, onUsage });
+        
+        // Calculate progress as rounds finish, in whatever order they complete
+        completedRounds++;
+        thinkingProcess.progress = 45 + Math.round((completedRounds / maxRounds) * 25);
+        thinkingProcess.stageProgress = {
+          currentStage: 'Iterative Search',
+          stageNumber: 3,
+          totalStages: 5,
+          percentComplete: Math.min(Math.round((completedRounds / maxRounds) * 100), 100),
+          detail: `Round ${completedRounds} of ${maxRounds}`
+        };
+        reportProgress();
         
         return {
           roundNumber,
@@ -626,19 +1427,6 @@ Format your response as a detailed analysis that explicitly references informati
           action: `Extracting key information related to search round ${result.roundNumber}`,
           outcome: result.analysis.substring(0, 200) + (result.analysis.length > 200 ? '...' : '')
         });
-        
-        // Calculate progress
-        const stageProgressPercent = Math.min(Math.round((result.roundNumber / maxRounds) * 100), 100);
-        const overallProgress = 45 + Math.round((result.roundNumber / maxRounds) * 25);
-        
-        thinkingProcess.progress = overallProgress;
-        thinkingProcess.stageProgress = {
-          currentStage: 'Iterative Search',
-          stageNumber: 3,
-          totalStages: 5,
-          percentComplete: stageProgressPercent,
-          detail: `Round ${result.roundNumber} of ${maxRounds}`
-        };
       });
       
       // Remove duplicates by URL
@@ -656,6 +1444,7 @@ Format your response as a detailed analysis that explicitly references informati
         content: 'Performing comprehensive analysis of all search results together',
         status: 'in_progress'
       });
+      reportProgress();
       
       const combinedResultsPrompt = `
 Analyze ALL ${allSearchResults.length} search results collectively to provide a comprehensive understanding of the query.
@@ -709,7 +1498,7 @@ YOUR TASK:
 Provide a detailed analysis that references specific results by their number and explicitly mentions key information from EACH result.
 `;
 
-      const combinedAnalysis = await this.generateContent(combinedResultsPrompt, modelId);
+      const combinedAnalysis = await this.generateContent(combinedResultsPrompt, modelId, true, { signal, onUsage });
       
       thinkingProcess.steps[thinkingProcess.steps.length - 1].status = 'complete';
       
@@ -729,6 +1518,7 @@ Provide a detailed analysis that references specific results by their number and
         totalStages: 5,
         percentComplete: 100
       };
+      reportProgress();
       
       // STAGE 4: INFORMATION SYNTHESIS (70-85% progress)
       thinkingProcess.steps.push({
@@ -746,8 +1536,10 @@ Provide a detailed analysis that references specific results by their number and
         totalStages: 5,
         percentComplete: 50
       };
+      reportProgress();
       
       // Generate final response using LLM - similar to how Perplexity uses GPT-4o or Claude for final synthesis
+      const synthesisContentLength = this.getScrapedContentLength(modelId, Math.min(allSearchResults.length, 20));
       const finalSynthesisPrompt = `
 You are a helpful AI assistant providing direct, informative responses based on search results.
 
@@ -765,7 +1557,7 @@ ${allSearchResults.slice(0, 20).map((result, idx) => {
   if (result.enhancedContent) {
     resultText += `\n
   ## SCRAPED WEBPAGE CONTENT:
-  ${result.enhancedContent.summary || ''}
+  ${this.truncateText(result.enhancedContent.summary || '', synthesisContentLength)}
   
   ## EXTRACTED DATES:
   ${result.enhancedContent.extractedDates?.join(', ') || 'None found'}
@@ -845,9 +1637,13 @@ End your response with a "Search Results Summary" section that provides:
 - Total search results analyzed: ${allSearchResults.length}
 - Key sources consulted: List 3-5 most relevant domains
 - Confidence level: High/Medium/Low with brief explanation
-- Information gaps: Note any missing information needed for a complete answer`;
+- Information gaps: Note any missing information needed for a complete answer${attachments?.length ? `
 
-      const synthesizedResponse = await this.generateContent(finalSynthesisPrompt, modelId);
+The user attached ${attachments.length} file(s) to the query. Use their content together with the search results.` : ''}`;
+
+      // Attachments and the conversation's instructions only go to the final synthesis;
+      // the planning stages work from the query text
+      const synthesizedResponse = await this.generateContent(finalSynthesisPrompt, modelId, true, { signal, history, attachments, systemInstruction, generationSettings, safetyThresholds, onUsage, onThought });
       
       // Update progress to show stage 4 is complete
       thinkingProcess.progress = 85;
@@ -858,6 +1654,7 @@ End your response with a "Search Results Summary" section that provides:
         totalStages: 5,
         percentComplete: 100
       };
+      reportProgress();
       
       // STAGE 5: CITATION AND FORMATTING (85-100% progress)
       thinkingProcess.steps.push({
@@ -875,6 +1672,7 @@ End your response with a "Search Results Summary" section that provides:
         totalStages: 5,
         percentComplete: 50
       };
+      reportProgress();
       
       // Create citations from search results
       const citations: Citation[] = allSearchResults.slice(0, 20).map((result, index) => ({
@@ -917,23 +1715,10 @@ End your response with a "Search Results Summary" section that provides:
       
       // Add confidence score
       thinkingProcess.confidenceScore = 0.9;
+      reportProgress();
       
       console.log('Completed search process:', thinkingProcess);
       
-      // Check if we're using the thinking model
-      if (modelId === 'gemini-2.0-flash-thinking-exp') {
-        // For the thinking model, we'll process the response to extract the thinking process
-        const { text: processedText, thinkingProcess: updatedThinkingProcess } = 
-          this.processThinkingResponse(formattedResponse, thinkingProcess);
-        
-        return {
-          text: processedText,
-          searchResults: allSearchResults,
-          thinkingProcess: updatedThinkingProcess
-        };
-      }
-      
-      // Regular response for non-thinking models
       return {
         text: formattedResponse,
         searchResults: allSearchResults,
@@ -941,34 +1726,97 @@ End your response with a "Search Results Summary" section that provides:
       };
       
     } catch (error) {
-      console.error('Error performing web search:', error);
+      // Stopping the search is reported to the caller untouched
+      if (signal?.aborted) {
+        throw error;
+      }
       
-      return {
-        text: `Error performing web search: ${error}`,
-        searchResults: [],
-        thinkingProcess: {
-          steps: [{
-            type: 'error',
-            content: `Error: ${error}`,
-            status: 'error'
-          }],
-          reasoningPath: [{
-            thought: 'Encountered an error during web search',
-            action: 'Reporting error to user',
-            outcome: `Error: ${error}`
-          }],
-          progress: 0,
-          stageProgress: {
-            currentStage: 'Error',
-            stageNumber: 0,
-            totalStages: 5,
-            percentComplete: 0
-          }
-        }
-      };
+      console.error('Error performing web search:', error);
+      throw toGeminiError(error, modelId);
     }
   }
   
+  /**
+   * Suggest follow-up questions for a question and its answer
+   * @param context DeepSearch information gaps and subtopics, used to point the questions at what is still unexplored
+   * @returns 3-5 questions, or an empty list if none could be generated
+   */
+  async generateFollowUpQuestions(
+    question: string,
+    answer: string,
+    modelId: string,
+    context: FollowUpContext = {},
+    options: GenerationOptions = {}
+  ): Promise<string[]> {
+    const { informationGaps = [], subtopics = [] } = context;
+
+    const followUpPrompt = `Suggest follow-up questions the user is likely to ask next.
+
+User question: "${question}"
+
+Answer given:
+${answer.substring(0, 6000)}
+${informationGaps.length > 0 ? `\nInformation the answer could not cover:\n${informationGaps.map(gap => `- ${gap}`).join('\n')}\n` : ''}${subtopics.length > 0 ? `\nRelated subtopics:\n${subtopics.map(topic => `- ${topic}`).join('\n')}\n` : ''}
+Write 3 to 5 short, specific questions (under 15 words each) that build on the answer, phrased as the user would ask them.
+Do not repeat the original question or ask about things the answer already covers in detail.`;
+
+    try {
+      const { questions } = await this.generateStructured(followUpPrompt, followUpQuestionsSchema, modelId, { signal: options.signal, onUsage: options.onUsage });
+
+      return questions
+        .map(q => q.trim())
+        .filter(q => q.length > 0);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+
+      // Suggestions are optional, so a failure here should never fail the response
+      console.error('Error generating follow-up questions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Name a conversation from its opening exchange
+   * @param question The first message of the conversation
+   * @param answer The reply to it
+   * @param modelId The model to name it with; a fast model is enough
+   * @returns A short title, at most maxTitleLength characters
+   * @throws GeminiError when the request fails
+   */
+  async generateTitle(
+    question: string,
+    answer: string,
+    modelId: string,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    const titlePrompt = `Write a title for a conversation that starts with this exchange.
+
+User: ${question.substring(0, 2000)}
+
+Assistant: ${answer.substring(0, 2000)}
+
+The title should name the topic the way a person would label it in a list of chats, in the language of the user's message.`;
+
+    const { title } = await this.generateStructured(titlePrompt, conversationTitleSchema, modelId, {
+      signal: options.signal,
+      onUsage: options.onUsage
+    });
+
+    const cleaned = title
+      .replace(/\s+/g, ' ')
+      .replace(/^["'“‘\s]+|["'”’.\s]+$/g, '');
+
+    if (!cleaned) {
+      throw new GeminiError('invalid-response', 'The model returned an empty title');
+    }
+
+    return cleaned.length > this.maxTitleLength
+      ? `${cleaned.substring(0, this.maxTitleLength - 3).trimEnd()}...`
+      : cleaned;
+  }
+
   /**
    * Optimize the initial search query based on domain and type
    */
@@ -1120,7 +1968,7 @@ End your response with a "Search Results Summary" section that provides:
   /**
    * Perform a web search using our custom search server
    */
-  private async performWebSearch(query: string, domain: string): Promise<SearchResult[]> {
+  private async performWebSearch(query: string, domain: string, signal?: AbortSignal): Promise<SearchResult[]> {
     try {
       const optimizedQuery = this.optimizeSearchQuery(query, domain, 'factual');
       console.log('Performing web search with optimized query:', optimizedQuery);
@@ -1130,7 +1978,7 @@ End your response with a "Search Results Summary" section that provides:
       
       if (useEnhancedSearch) {
         // Use the enhanced search endpoint that includes webpage content
-        const response = await fetch('http://localhost:3001/api/enhanced-search', {
+        const response = await fetch(`${getServerUrl()}/api/enhanced-search`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -1143,6 +1991,7 @@ End your response with a "Search Results Summary" section that provides:
               depth: 'moderate'
             }
           }),
+          signal,
         });
         
         if (!response.ok) {
@@ -1181,12 +2030,13 @@ End your response with a "Search Results Summary" section that provides:
         return formattedResults;
       } else {
         // Use the regular search endpoint without webpage content
-        const response = await fetch('http://localhost:3001/api/search', {
+        const response = await fetch(`${getServerUrl()}/api/search`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({ query: optimizedQuery }),
+          signal,
         });
         
         if (!response.ok) {
@@ -1217,6 +2067,10 @@ End your response with a "Search Results Summary" section that provides:
         return formattedResults;
       }
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      
       console.error('Error performing web search:', error);
       
       // Return an empty array with a single error result instead of simulated results
@@ -1249,132 +2103,38 @@ End your response with a "Search Results Summary" section that provides:
   }
   
   /**
-   * Get the model by ID
+   * Get the description of an available model
+   * @throws ModelNotFoundError when the model is not available to the API key
    */
-  private getModelById(modelId: string): GenerativeModel {
-    if (!this.models[modelId]) {
-      console.warn(`Model ${modelId} not found, falling back to default`);
-      // Fallback to a default model if the requested one isn't available
-      return this.models[Object.keys(this.models)[0]];
+  private getModelInfo(modelId: string): GeminiModel {
+    const model = this.availableModels.find(model => model.id === modelId);
+    if (!model) {
+      throw new ModelNotFoundError(modelId);
     }
-    return this.models[modelId];
+    return model;
   }
 
   /**
-   * Get available models
+   * Get the model by ID, creating it on first use
+   * @throws ModelNotFoundError when the model is not available to the API key
    */
-  getAvailableModels() {
-    return [
-      {
-        id: 'gemini-2.0-pro-exp',
-        name: 'Gemini 2.0 Pro',
-        description: 'Most capable model for complex tasks',
-        isDefault: true,
-        capabilities: ['text', 'code', 'reasoning', 'webSearch'],
-        maxInputTokens: 32768,
-        supportsWebSearch: true,
-        supportsThinking: true
-      },
-      {
-        id: 'gemini-2.0-flash-exp',
-        name: 'Gemini 2.0 Flash',
-        description: 'Fast model with vision capabilities',
-        capabilities: ['text', 'code', 'vision'],
-        maxInputTokens: 32768,
-        supportsWebSearch: false,
-        supportsThinking: true
-      },
-      {
-        id: 'gemini-1.5-pro',
-        name: 'Gemini 1.5 Pro',
-        description: 'Previous generation pro model',
-        capabilities: ['text', 'code', 'reasoning'],
-        maxInputTokens: 16384,
-        supportsWebSearch: true,
-        supportsThinking: false
-      },
-      {
-        id: 'gemini-1.5-flash',
-        name: 'Gemini 1.5 Flash',
-        description: 'Previous generation fast model',
-        capabilities: ['text', 'code'],
-        maxInputTokens: 16384,
-        supportsWebSearch: true,
-        supportsThinking: false
-      }
-    ];
-  }
+  private getModelById(modelId: string): GenerativeModel {
+    this.getModelInfo(modelId);
 
-  /**
-   * Extract thinking process and answer from a Gemini 2.0 Flash Thinking model response
-   * The response format is typically "Thinking: <thinking process> Answer: <final answer>"
-   */
-  private extractThinkingAndAnswer(text: string): { thinking: string; answer: string } {
-    // If the response doesn't follow the expected format, return the entire text as the answer
-    if (!text.includes('Thinking:') || !text.includes('Answer:')) {
-      return {
-        thinking: '',
-        answer: text
-      };
-    }
-    
-    try {
-      // Extract thinking process (everything between "Thinking:" and "Answer:")
-      const thinkingMatch = text.match(/Thinking:(.*?)Answer:/s);
-      const thinking = thinkingMatch ? thinkingMatch[1].trim() : '';
-      
-      // Extract answer (everything after "Answer:")
-      const answerMatch = text.match(/Answer:(.*?)$/s);
-      const answer = answerMatch ? answerMatch[1].trim() : text;
-      
-      return { thinking, answer };
-    } catch (error) {
-      console.error('Error extracting thinking process:', error);
-      return {
-        thinking: '',
-        answer: text
-      };
+    if (!this.models[modelId]) {
+      this.models[modelId] = this.genAI.getGenerativeModel({
+        model: modelId,
+        safetySettings: this.getDefaultSafetySettings()
+      }, this.requestOptions);
     }
+    return this.models[modelId];
   }
 
   /**
-   * Process the thinking model's response to populate the thinking process
+   * Get available models
+   * These are the discovered models once discoverModels has succeeded, otherwise the static list
    */
-  private processThinkingResponse(text: string, thinkingProcess: ThinkingProcess): { text: string; thinkingProcess: ThinkingProcess } {
-    const { thinking, answer } = this.extractThinkingAndAnswer(text);
-    
-    if (thinking) {
-      // Add the thinking steps to the thinking process
-      const thinkingSteps = thinking.split('\n')
-        .filter(line => line.trim().length > 0)
-        .map((step, index) => ({
-          id: `thinking-${index}`,
-          type: 'thinking' as const,
-          content: step,
-          timestamp: Date.now(),
-          status: 'complete' as const
-        }));
-      
-      // Add steps to the thinking process
-      thinkingProcess.steps.push(...thinkingSteps);
-      
-      // Extract reasoning steps from the thinking process
-      const reasoningSteps = thinking.split('\n')
-        .filter(line => line.trim().length > 0)
-        .map(step => ({
-          thought: step,
-        }));
-      
-      // Add reasoning steps to the thinking process
-      thinkingProcess.reasoningPath.push(...reasoningSteps);
-      
-      // Update progress
-      thinkingProcess.progress = 100;
-    }
-    
-    return {
-      text: answer,
-      thinkingProcess
-    };
+  getAvailableModels(): GeminiModel[] {
+    return this.availableModels;
   }
 } 
\ No newline at end of file
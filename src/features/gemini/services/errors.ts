@@ -0,0 +1,250 @@
+import {
+  EnhancedGenerateContentResponse,
+  FinishReason,
+  GenerateContentResponse,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError
+} from '@google/generative-ai';
+import { BlockedResponseInfo, GeminiErrorCode, GeminiErrorInfo } from '../types/gemini.types';
+
+/**
+ * Base class for failures of Gemini API calls
+ * `code` says what went wrong and `retryable` whether trying again may help
+ */
+export class GeminiError extends Error {
+  readonly code: GeminiErrorCode;
+  readonly retryable: boolean;
+  readonly status?: number;
+  /** Delay the API asked for before retrying, in milliseconds */
+  readonly retryAfter?: number;
+  /** Original error from the SDK or the fetch call */
+  readonly cause?: unknown;
+
+  constructor(
+    code: GeminiErrorCode,
+    message: string,
+    options: { retryable?: boolean; status?: number; retryAfter?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'GeminiError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Plain description of the error that can be stored with a message
+   */
+  toInfo(): GeminiErrorInfo {
+    return { code: this.code, message: this.message, retryable: this.retryable };
+  }
+}
+
+/**
+ * Error thrown when the rate limit or quota of the API key was exceeded (HTTP 429),
+ * or the user's quota on the server's Gemini proxy
+ */
+export class QuotaExceededError extends GeminiError {
+  constructor(
+    message: string = 'The Gemini API rate limit or quota was exceeded. Wait a moment and try again.',
+    options: { retryAfter?: number; cause?: unknown } = {}
+  ) {
+    super('quota', message, {
+      ...options,
+      retryable: true,
+      status: 429
+    });
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Error thrown when the API key is missing or was rejected
+ */
+export class InvalidApiKeyError extends GeminiError {
+  constructor(message: string = 'The Gemini API key was rejected. Check that it is valid and has access to the Gemini API.', options: { status?: number; cause?: unknown } = {}) {
+    super('invalid-key', message, options);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+/**
+ * Error thrown when the requested model does not exist or is not available to the API key
+ */
+export class ModelNotFoundError extends GeminiError {
+  readonly modelId?: string;
+
+  constructor(modelId?: string, options: { cause?: unknown } = {}) {
+    super('model-not-found', `${modelId ? `Model ${modelId}` : 'The model'} was not found or is not available to this API key.`, {
+      ...options,
+      status: 404
+    });
+    this.name = 'ModelNotFoundError';
+    this.modelId = modelId;
+  }
+}
+
+/**
+ * Error thrown when the API could not be reached
+ */
+export class NetworkError extends GeminiError {
+  constructor(options: { cause?: unknown } = {}) {
+    super('network', 'Could not reach the Gemini API. Check your internet connection.', { ...options, retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Error thrown when the API did not respond in time
+ */
+export class TimeoutError extends GeminiError {
+  constructor(timeout: number, options: { cause?: unknown } = {}) {
+    super('timeout', `The Gemini API did not respond within ${Math.round(timeout / 1000)} seconds.`, { ...options, retryable: true });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Error thrown when the prompt or the response was blocked by the safety filters
+ */
+export class BlockedResponseError extends GeminiError {
+  readonly blockInfo: BlockedResponseInfo;
+
+  constructor(blockInfo: BlockedResponseInfo) {
+    super('safety', blockInfo.stage === 'prompt'
+      ? `The prompt was blocked${blockInfo.blockReason ? ` (${blockInfo.blockReason})` : ''}`
+      : `The response was blocked${blockInfo.finishReason ? ` (${blockInfo.finishReason})` : ''}`);
+    this.name = 'BlockedResponseError';
+    this.blockInfo = blockInfo;
+  }
+}
+
+// Finish reasons that mean the response was cut off by a filter rather than finishing normally
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+];
+
+/**
+ * Describe why a response was blocked, or return null when it was not
+ */
+export const getBlockedResponseInfo = (
+  response: GenerateContentResponse | EnhancedGenerateContentResponse
+): BlockedResponseInfo | null => {
+  const { promptFeedback } = response;
+  if (promptFeedback?.blockReason) {
+    return {
+      stage: 'prompt',
+      blockReason: promptFeedback.blockReason,
+      blockReasonMessage: promptFeedback.blockReasonMessage,
+      safetyRatings: promptFeedback.safetyRatings || []
+    };
+  }
+
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) {
+    return {
+      stage: 'response',
+      finishReason: candidate.finishReason,
+      safetyRatings: candidate.safetyRatings || []
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Read the retry delay from the RetryInfo detail of a 429 response, in milliseconds
+ */
+const getRetryAfter = (error: GoogleGenerativeAIFetchError): number | undefined => {
+  const retryInfo = error.errorDetails?.find(detail => detail['@type']?.endsWith('RetryInfo'));
+  const delay = (retryInfo as { retryDelay?: string } | undefined)?.retryDelay;
+  const seconds = delay ? parseFloat(delay) : NaN;
+
+  return Number.isNaN(seconds) ? undefined : seconds * 1000;
+};
+
+/**
+ * Read why the server's Gemini proxy refused a request, from the ErrorInfo detail it adds
+ */
+const getProxyReason = (error: GoogleGenerativeAIFetchError): string | undefined => {
+  return error.errorDetails?.find(detail => detail.domain === 'gemini-proxy')?.reason;
+};
+
+const formatWait = (ms: number): string => {
+  const minutes = Math.ceil(ms / 60000);
+  if (minutes <= 1) return 'a minute';
+  if (minutes < 120) return `${minutes} minutes`;
+  return `${Math.ceil(minutes / 60)} hours`;
+};
+
+const isInvalidKeyError = (error: GoogleGenerativeAIFetchError): boolean => {
+  if (error.status === 401 || error.status === 403) return true;
+  if (error.status !== 400) return false;
+
+  return /api key/i.test(error.message)
+    || !!error.errorDetails?.some(detail => detail.reason === 'API_KEY_INVALID');
+};
+
+/**
+ * Classify any error thrown while calling the API as a GeminiError
+ * @param modelId Model the request was made to, used in the model-not-found message
+ */
+export const toGeminiError = (error: unknown, modelId?: string): GeminiError => {
+  if (error instanceof GeminiError) {
+    return error;
+  }
+
+  if (error instanceof GoogleGenerativeAIResponseError && error.response) {
+    const blockInfo = getBlockedResponseInfo(error.response as GenerateContentResponse);
+    if (blockInfo) {
+      return new BlockedResponseError(blockInfo);
+    }
+  }
+
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const proxyReason = getProxyReason(error);
+    if (proxyReason === 'PROXY_NOT_CONFIGURED') {
+      return new InvalidApiKeyError('The server\'s Gemini proxy has no API key. Set GEMINI_API_KEY where the server runs.', { status: error.status, cause: error });
+    }
+    if (error.status === 429) {
+      const retryAfter = getRetryAfter(error);
+      const message = proxyReason === 'PROXY_QUOTA_EXCEEDED'
+        ? `You have used up your quota on this server's Gemini proxy. Try again in ${formatWait(retryAfter ?? 60000)}.`
+        : undefined;
+      return new QuotaExceededError(message, { retryAfter, cause: error });
+    }
+    if (isInvalidKeyError(error)) {
+      return new InvalidApiKeyError(undefined, { status: error.status, cause: error });
+    }
+    if (error.status === 404) {
+      return new ModelNotFoundError(modelId, { cause: error });
+    }
+    if (error.status !== undefined && error.status >= 500) {
+      return new GeminiError('server', 'The Gemini API is temporarily unavailable. Try again in a moment.', {
+        retryable: true,
+        status: error.status,
+        cause: error
+      });
+    }
+
+    return new GeminiError('unknown', error.message, { status: error.status, cause: error });
+  }
+
+  // The SDK reports a failed fetch (offline, DNS, CORS) as a plain error about fetching
+  if (error instanceof TypeError || (error instanceof GoogleGenerativeAIError
+    && !(error instanceof GoogleGenerativeAIAbortError)
+    && error.message.startsWith('Error fetching from'))) {
+    return new NetworkError({ cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new GeminiError('unknown', message, { cause: error });
+};
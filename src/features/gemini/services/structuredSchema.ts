@@ -0,0 +1,108 @@
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+
+/**
+ * Error thrown when structured model output does not match its schema
+ */
+export class SchemaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * A response schema paired with a validator for the TypeScript type it describes
+ * Build schemas with the `schema` helpers so the result type is derived from the schema itself
+ */
+export interface StructuredSchema<T> {
+  /** Schema sent to the API as generationConfig.responseSchema */
+  responseSchema: ResponseSchema;
+  /** Check a parsed value against the schema, throwing SchemaValidationError on mismatch */
+  validate: (value: unknown, path?: string) => T;
+}
+
+/**
+ * The TypeScript type described by a structured schema
+ */
+export type InferSchema<S> = S extends StructuredSchema<infer T> ? T : never;
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  throw new SchemaValidationError(`${path} should be ${expected} but was ${actual}`);
+};
+
+/**
+ * Builders for structured output schemas
+ */
+export const schema = {
+  string: (description?: string): StructuredSchema<string> => ({
+    responseSchema: { type: SchemaType.STRING, description },
+    validate: (value, path = 'value') => (typeof value === 'string' ? value : fail(path, 'a string', value))
+  }),
+
+  enumeration: <T extends string>(values: readonly T[], description?: string): StructuredSchema<T> => ({
+    responseSchema: { type: SchemaType.STRING, format: 'enum', enum: [...values], description },
+    validate: (value, path = 'value') => {
+      if (typeof value === 'string' && (values as readonly string[]).includes(value)) {
+        return value as T;
+      }
+      return fail(path, `one of ${values.join(', ')}`, value);
+    }
+  }),
+
+  number: (description?: string): StructuredSchema<number> => ({
+    responseSchema: { type: SchemaType.NUMBER, description },
+    validate: (value, path = 'value') => (typeof value === 'number' && !Number.isNaN(value) ? value : fail(path, 'a number', value))
+  }),
+
+  boolean: (description?: string): StructuredSchema<boolean> => ({
+    responseSchema: { type: SchemaType.BOOLEAN, description },
+    validate: (value, path = 'value') => (typeof value === 'boolean' ? value : fail(path, 'a boolean', value))
+  }),
+
+  array: <T>(
+    items: StructuredSchema<T>,
+    options: { description?: string; minItems?: number; maxItems?: number } = {}
+  ): StructuredSchema<T[]> => ({
+    responseSchema: { type: SchemaType.ARRAY, items: items.responseSchema, ...options },
+    validate: (value, path = 'value') => {
+      if (!Array.isArray(value)) {
+        return fail(path, 'an array', value);
+      }
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        throw new SchemaValidationError(`${path} should have at least ${options.minItems} items but had ${value.length}`);
+      }
+      // Extra items are harmless, so trim rather than reject
+      const list = options.maxItems !== undefined ? value.slice(0, options.maxItems) : value;
+      return list.map((item, index) => items.validate(item, `${path}[${index}]`));
+    }
+  }),
+
+  /**
+   * Object schema; every property is required
+   */
+  object: <P extends Record<string, StructuredSchema<unknown>>>(
+    properties: P,
+    description?: string
+  ): StructuredSchema<{ [K in keyof P]: InferSchema<P[K]> }> => ({
+    responseSchema: {
+      type: SchemaType.OBJECT,
+      description,
+      properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, value.responseSchema])),
+      required: Object.keys(properties)
+    },
+    validate: (value, path = 'value') => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(path, 'an object', value);
+      }
+
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      Object.entries(properties).forEach(([key, propertySchema]) => {
+        result[key] = propertySchema.validate(record[key], `${path}.${key}`);
+      });
+
+      return result as { [K in keyof P]: InferSchema<P[K]> };
+    }
+  })
+};
@@ -1,3 +1,5 @@
+import { HarmBlockThreshold, HarmCategory, SafetyRating } from '@google/generative-ai';
+
 /**
  * Search result type definition
  */
@@ -84,6 +86,51 @@ export interface ReasoningStep {
   outcome?: string;
 }
 
+/**
+ * File attached to a prompt (image, PDF or text file)
+ * The file content is kept as base64 so it can be persisted and sent as inline data
+ */
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  data: string;
+}
+
+/**
+ * How requests reach the Gemini API: straight from the browser with an API key,
+ * or through the companion server's proxy, which holds the key
+ */
+export type GeminiTransport =
+  | { mode: 'direct'; apiKey: string }
+  | { mode: 'proxy'; proxyUrl: string };
+
+/**
+ * Encrypted value with the parameters needed to decrypt it, each base64 encoded
+ */
+export interface EncryptedSecret {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+/**
+ * API key the user saved in the browser, in plain text or encrypted with a passphrase
+ */
+export interface SavedApiKey {
+  id: string;
+  // Name the user gave the key, e.g. the Google Cloud project it belongs to
+  label: string;
+  createdAt: number;
+  // Set for keys saved without a passphrase
+  key?: string;
+  // Set for keys encrypted with a passphrase
+  encrypted?: EncryptedSecret;
+  // Last characters of the key, to tell keys apart; not kept for encrypted keys
+  hint?: string;
+}
+
 /**
  * Gemini model type definition
  */
@@ -92,9 +139,111 @@ export interface GeminiModel {
   name: string;
   description: string;
   maxInputTokens: number;
+  maxOutputTokens: number;
   capabilities: string[];
   isDefault?: boolean;
   experimental?: boolean;
   supportsThinking?: boolean;
   supportsWebSearch?: boolean;
-} 
\ No newline at end of file
+}
+
+/**
+ * Number of input tokens a request uses, against the model's input limit
+ */
+export interface TokenCount {
+  totalTokens: number;
+  maxInputTokens: number;
+  /** True when the count is a local estimate because the API could not be reached */
+  estimated: boolean;
+}
+
+/**
+ * Kind of model call a usage record belongs to
+ */
+export type UsageOperation = 'generate' | 'stream' | 'candidates' | 'structured';
+
+/**
+ * Token usage and latency of a single model call, from the response's usage metadata
+ */
+export interface UsageRecord {
+  modelId: string;
+  operation: UsageOperation;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  timestamp: number;
+}
+
+/**
+ * A model as described by the API's model listing (models.list)
+ */
+export interface ModelListing {
+  /** Resource name, e.g. "models/gemini-2.0-flash" */
+  name: string;
+  displayName?: string;
+  description?: string;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+  supportedGenerationMethods?: string[];
+  /** Whether the model produces thoughts */
+  thinking?: boolean;
+}
+
+/**
+ * Sampling and output settings applied to generation requests
+ * Unset fields fall back to the model's defaults
+ */
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  // Number of alternative responses to generate; each one becomes a response variant
+  candidateCount?: number;
+  // Tokens thinking models may spend reasoning; 0 turns thinking off where allowed, -1 lets the model decide
+  thinkingBudget?: number;
+}
+
+/**
+ * Block threshold for each harm category; categories left out use the default threshold
+ */
+export type SafetyThresholds = Partial<Record<HarmCategory, HarmBlockThreshold>>;
+
+/**
+ * Why a prompt or response was blocked by the safety filters
+ */
+export interface BlockedResponseInfo {
+  // 'prompt' when the prompt was rejected outright, 'response' when the answer was stopped
+  stage: 'prompt' | 'response';
+  // From promptFeedback when the prompt was blocked
+  blockReason?: string;
+  blockReasonMessage?: string;
+  // From the candidate when the response was blocked
+  finishReason?: string;
+  safetyRatings: SafetyRating[];
+}
+
+/**
+ * Kind of failure of a Gemini API call
+ */
+export type GeminiErrorCode =
+  | 'quota'
+  | 'invalid-key'
+  | 'model-not-found'
+  | 'safety'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'invalid-response'
+  | 'unknown';
+
+/**
+ * Serializable description of a failed Gemini API call
+ */
+export interface GeminiErrorInfo {
+  code: GeminiErrorCode;
+  message: string;
+  retryable: boolean;
+}
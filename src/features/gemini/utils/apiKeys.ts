@@ -0,0 +1,105 @@
+import { EncryptedSecret, SavedApiKey } from '../types/gemini.types';
+
+const KEYS_STORAGE_KEY = 'apiKeys';
+const ACTIVE_KEY_STORAGE_KEY = 'activeApiKeyId';
+const SETUP_STORAGE_KEY = 'apiKeySetupComplete';
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256; deriving takes a fraction of a second once per unlock
+const PBKDF2_ITERATIONS = 310000;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+/**
+ * Derive an AES-GCM key from a passphrase
+ */
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypt an API key with a passphrase, with a fresh salt and IV
+ */
+export const encryptApiKey = async (apiKey: string, passphrase: string): Promise<EncryptedSecret> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey));
+
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/**
+ * Decrypt an API key encrypted with encryptApiKey
+ * @throws Error when the passphrase is wrong; AES-GCM rejects it rather than returning garbage
+ */
+export const decryptApiKey = async (secret: EncryptedSecret, passphrase: string): Promise<string> => {
+  try {
+    const key = await deriveKey(passphrase, fromBase64(secret.salt));
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, key, fromBase64(secret.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+};
+
+/**
+ * Whether WebCrypto is available; browsers only expose it on secure origins (HTTPS or localhost)
+ */
+export const canEncryptApiKeys = (): boolean => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+/**
+ * Last characters of a key, shown to tell saved keys apart
+ */
+export const getKeyHint = (apiKey: string): string => `…${apiKey.slice(-4)}`;
+
+/**
+ * Load the API keys saved in this browser
+ */
+export const loadApiKeys = (): SavedApiKey[] => {
+  try {
+    const saved = localStorage.getItem(KEYS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading API keys:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the API keys saved in this browser
+ */
+export const saveApiKeys = (keys: SavedApiKey[]) => {
+  localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys));
+};
+
+/**
+ * Load which saved key is in use; null means the key or proxy the app was deployed with
+ */
+export const loadActiveApiKeyId = (): string | null => localStorage.getItem(ACTIVE_KEY_STORAGE_KEY);
+
+export const saveActiveApiKeyId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_KEY_STORAGE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_KEY_STORAGE_KEY);
+  }
+};
+
+/**
+ * Whether the user went through the first-run key setup
+ */
+export const loadSetupComplete = (): boolean => localStorage.getItem(SETUP_STORAGE_KEY) === 'true';
+
+export const saveSetupComplete = (complete: boolean) => {
+  localStorage.setItem(SETUP_STORAGE_KEY, String(complete));
+};
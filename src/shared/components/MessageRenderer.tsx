@@ -5,6 +5,7 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import rehypeRaw from 'rehype-raw';
 import DOMPurify from 'dompurify';
+import { isWebUrl } from '../utils/urls';
 
 interface MessageRendererProps {
   content: string;
@@ -16,8 +17,44 @@ interface MessageRendererProps {
     snippet?: string;
     source?: string;
   }>;
+  isStreaming?: boolean;
+  // Render HTML embedded in the markdown; off for content from other people, such as shared links
+  allowHtml?: boolean;
 }
 
+/**
+ * Close or hide markdown constructs left open by a partially streamed response
+ * so the renderer doesn't flicker between layouts while chunks arrive
+ */
+const balancePartialMarkdown = (text: string): string => {
+  let balanced = text;
+  
+  // An odd number of code fences means a code block is still being written
+  const fenceCount = (balanced.match(/^\s*```/gm) || []).length;
+  if (fenceCount % 2 === 1) {
+    return `${balanced}\n\`\`\``;
+  }
+  
+  // Hide a display math block until its closing delimiter arrives
+  const displayMathCount = (balanced.match(/\$\$/g) || []).length;
+  if (displayMathCount % 2 === 1) {
+    balanced = balanced.substring(0, balanced.lastIndexOf('$$'));
+  }
+  
+  // Hide an unterminated inline LaTeX expression on the last line (but not currency amounts)
+  const lastLineStart = balanced.lastIndexOf('\n') + 1;
+  const lastLine = balanced.substring(lastLineStart).replace(/\$\$/g, '');
+  const inlineMathCount = (lastLine.match(/\$/g) || []).length;
+  if (inlineMathCount % 2 === 1) {
+    const openIndex = balanced.lastIndexOf('$');
+    if (/^\$\s*\\/.test(balanced.substring(openIndex))) {
+      balanced = balanced.substring(0, openIndex);
+    }
+  }
+  
+  return balanced;
+};
+
 /**
  * MessageRenderer component for rendering markdown content
  * Enhanced with Perplexity-style citation display
@@ -25,7 +62,9 @@ interface MessageRendererProps {
 const MessageRenderer: React.FC<MessageRendererProps> = ({ 
   content, 
   className = '', 
-  citations = []
+  citations = [],
+  isStreaming = false,
+  allowHtml = true
 }) => {
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [activeCitation, setActiveCitation] = useState<number | null>(null);
@@ -87,7 +126,7 @@ const MessageRenderer: React.FC<MessageRendererProps> = ({
       
       // Add data attributes for citation data if available
       if (citation) {
-        if (citation.url && citation.url !== '#') {
+        if (isWebUrl(citation.url)) {
           attributes += ` data-url="${citation.url}"`;
         }
         if (citation.title) attributes += ` data-title="${citation.title || ''}"`;
@@ -106,7 +145,7 @@ const MessageRenderer: React.FC<MessageRendererProps> = ({
     <div ref={contentRef} className={`prose prose-chat ${className}`}>
       <ReactMarkdown
         remarkPlugins={[remarkGfm]}
-        rehypePlugins={[rehypeRaw]}
+        rehypePlugins={allowHtml ? [rehypeRaw] : []}
         components={{
           code({ node, inline, className, children, ...props }: any) {
             const match = /language-(\w+)/.exec(className || '');
@@ -214,7 +253,7 @@ const MessageRenderer: React.FC<MessageRendererProps> = ({
                     e.preventDefault();
                     const citationId = href.replace('#citation-', '');
                     const citation = citations.find(c => c.id === parseInt(citationId, 10));
-                    if (citation && citation.url) {
+                    if (citation && isWebUrl(citation.url)) {
                       window.open(citation.url, '_blank', 'noopener,noreferrer');
                     }
                   }
@@ -276,9 +315,11 @@ const MessageRenderer: React.FC<MessageRendererProps> = ({
           }
         }}
       >
-        {content}
+        {isStreaming ? balancePartialMarkdown(content) : content}
       </ReactMarkdown>
       
+      {isStreaming && <span className="streaming-cursor" aria-hidden="true" />}
+      
       {/* Add CSS for citations without using jsx prop */}
       <style dangerouslySetInnerHTML={{ __html: `
         .citation-reference {
@@ -331,6 +372,22 @@ const MessageRenderer: React.FC<MessageRendererProps> = ({
         .source-citation:hover {
           background-color: rgba(99, 102, 241, 0.25);
         }
+        
+        .streaming-cursor {
+          display: inline-block;
+          width: 0.5rem;
+          height: 1rem;
+          margin-left: 0.15rem;
+          vertical-align: text-bottom;
+          background-color: #60A5FA;
+          animation: streaming-cursor-blink 1s steps(2, start) infinite;
+        }
+        
+        @keyframes streaming-cursor-blink {
+          to {
+            visibility: hidden;
+          }
+        }
       `}} />
     </div>
   );
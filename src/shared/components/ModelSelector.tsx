@@ -1,5 +1,6 @@
 import React from 'react';
-import { GEMINI_MODELS, findModelById } from '../utils/geminiModels';
+import { getAvailableModels, findModelById } from '../utils/geminiModels';
+import { GeminiModel } from '../../features/gemini/types/gemini.types';
 
 interface ModelSelectorProps {
   selectedModel: string;
@@ -7,6 +8,8 @@ interface ModelSelectorProps {
   disabled?: boolean;
   className?: string;
   webSearchEnabled?: boolean;
+  /** Models to choose from, defaults to the currently available models */
+  models?: GeminiModel[];
 }
 
 /**
@@ -18,22 +21,23 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
   onSelectModel,
   disabled = false,
   className = '',
-  webSearchEnabled = false
+  webSearchEnabled = false,
+  models = getAvailableModels()
 }) => {
-  // Get current selected model
-  const currentModel = findModelById(selectedModel) || GEMINI_MODELS[0];
+  // Get current selected model, which may no longer be offered by the API
+  const currentModel = models.find(model => model.id === selectedModel);
   
   // If web search is enabled and current model doesn't support it, switch to a model that does
   React.useEffect(() => {
     if (webSearchEnabled && currentModel && !currentModel.supportsWebSearch) {
       // Find the first model that supports web search
-      const webSearchModel = GEMINI_MODELS.find(model => model.supportsWebSearch);
+      const webSearchModel = models.find(model => model.supportsWebSearch);
       
       if (webSearchModel) {
         onSelectModel(webSearchModel.id);
       }
     }
-  }, [webSearchEnabled, currentModel, onSelectModel]);
+  }, [webSearchEnabled, currentModel, models, onSelectModel]);
   
   // Handle model selection
   const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -45,7 +49,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
   return (
     <div className={`${className}`}>
       <select
-        value={currentModel?.id}
+        value={selectedModel}
         onChange={handleChange}
         disabled={disabled}
         className={`px-3 py-1.5 rounded-full text-sm font-medium appearance-none bg-[#1d1e20] text-white border border-[#333] hover:bg-[#252525] cursor-pointer pr-8 ${
@@ -58,7 +62,12 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
           backgroundSize: '12px'
         }}
       >
-        {GEMINI_MODELS.map((model) => {
+        {!currentModel && (
+          <option value={selectedModel} disabled>
+            {findModelById(selectedModel)?.name || selectedModel} (Unavailable)
+          </option>
+        )}
+        {models.map((model) => {
           // Determine if this model should be disabled - only disable models that don't support web search
           const isModelDisabled = webSearchEnabled && !model.supportsWebSearch;
           
@@ -1,5 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
+import { isWebUrl } from '../utils/urls';
 
 /**
  * Source interface defining a citation source
@@ -29,7 +30,10 @@ const SourceCitation: React.FC<SourceCitationProps> = ({
   className = '',
   onSourceClick
 }) => {
-  if (!sources || sources.length === 0) {
+  // Sources can come from shared links made by anyone, so only web addresses are linked
+  const linkedSources = (sources || []).filter(source => isWebUrl(source.url));
+
+  if (linkedSources.length === 0) {
     return null;
   }
 
@@ -51,7 +55,7 @@ const SourceCitation: React.FC<SourceCitationProps> = ({
   const handleSourceClick = (source: Source) => {
     if (onSourceClick) {
       onSourceClick(source);
-    } else if (source.url) {
+    } else if (isWebUrl(source.url)) {
       window.open(source.url, '_blank', 'noopener,noreferrer');
     }
   };
@@ -60,7 +64,7 @@ const SourceCitation: React.FC<SourceCitationProps> = ({
     <div className={`source-citations-container ${className}`}>
       {/* Top sources section - display in a grid layout */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 mt-2">
-        {sources.slice(0, 6).map((source) => (
+        {linkedSources.slice(0, 6).map((source) => (
           <motion.a
             key={source.id}
             href={source.url}
@@ -72,7 +76,7 @@ const SourceCitation: React.FC<SourceCitationProps> = ({
             transition={{ type: "spring", stiffness: 400, damping: 10 }}
           >
             <div className="flex items-start mb-1">
-              {source.favicon && (
+              {isWebUrl(source.favicon) && (
                 <img 
                   src={source.favicon} 
                   alt=""
@@ -99,11 +103,11 @@ const SourceCitation: React.FC<SourceCitationProps> = ({
       </div>
 
       {/* Additional sources list - more compact display */}
-      {sources.length > 6 && (
+      {linkedSources.length > 6 && (
         <div className="mt-4">
           <p className="text-sm text-gray-400 mb-2">Additional sources:</p>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
-            {sources.slice(6).map((source) => (
+            {linkedSources.slice(6).map((source) => (
               <a 
                 key={source.id}
                 href={source.url}
@@ -111,7 +115,7 @@ const SourceCitation: React.FC<SourceCitationProps> = ({
                 rel="noopener noreferrer"
                 className="flex items-center py-1 px-2 text-sm cursor-pointer hover:bg-gray-800 rounded-md"
               >
-                {source.favicon && (
+                {isWebUrl(source.favicon) && (
                   <img 
                     src={source.favicon} 
                     alt=""
@@ -132,7 +136,7 @@ const SourceCitation: React.FC<SourceCitationProps> = ({
 
       <div className="mt-4 text-right">
         <span className="text-xs text-gray-400">
-          {sources.length} source{sources.length !== 1 ? 's' : ''} total
+          {linkedSources.length} source{linkedSources.length !== 1 ? 's' : ''} total
         </span>
       </div>
     </div>
@@ -0,0 +1,109 @@
+import { Attachment } from '../../features/gemini/types/gemini.types';
+
+/**
+ * Maximum size of a single attachment (Gemini limits inline data to 20MB per request)
+ */
+export const MAX_ATTACHMENT_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Maximum number of attachments per message
+ */
+export const MAX_ATTACHMENTS = 5;
+
+// MIME types Gemini accepts as inline data
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const DOCUMENT_TYPES = ['application/pdf'];
+const TEXT_EXTENSIONS = ['txt', 'md', 'csv', 'json', 'xml', 'html', 'css', 'js', 'ts', 'tsx', 'jsx', 'py', 'java', 'c', 'cpp', 'go', 'rs', 'rb', 'sh', 'yaml', 'yml', 'log'];
+
+/**
+ * Value for the accept attribute of file inputs
+ */
+export const ATTACHMENT_ACCEPT = [
+  ...IMAGE_TYPES,
+  ...DOCUMENT_TYPES,
+  'text/*',
+  ...TEXT_EXTENSIONS.map(ext => `.${ext}`)
+].join(',');
+
+/**
+ * Check whether a file is a text file, by MIME type or extension
+ * Browsers report many source files with an empty or misleading MIME type
+ */
+const isTextFile = (file: File): boolean => {
+  if (file.type.startsWith('text/') || file.type === 'application/json') {
+    return true;
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return TEXT_EXTENSIONS.includes(extension);
+};
+
+/**
+ * Check whether a file can be sent to Gemini as an attachment
+ */
+export const isSupportedAttachment = (file: File): boolean => {
+  return IMAGE_TYPES.includes(file.type) || DOCUMENT_TYPES.includes(file.type) || isTextFile(file);
+};
+
+/**
+ * Read a file into an attachment with base64 encoded content
+ * @param file The file selected, pasted or dropped by the user
+ * @returns The attachment, with text files normalized to text/plain
+ */
+export const readFileAsAttachment = (file: File): Promise<Attachment> => {
+  return new Promise((resolve, reject) => {
+    if (!isSupportedAttachment(file)) {
+      reject(new Error(`${file.name} is not a supported file type`));
+      return;
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      reject(new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`));
+      return;
+    }
+
+    const reader = new FileReader();
+
+    reader.onload = () => {
+      // Strip the "data:<mime>;base64," prefix
+      const dataUrl = reader.result as string;
+      const data = dataUrl.substring(dataUrl.indexOf(',') + 1);
+
+      resolve({
+        id: Math.random().toString(36).substring(2, 15),
+        name: file.name || 'pasted-file',
+        mimeType: isTextFile(file) && !file.type.startsWith('text/') ? 'text/plain' : file.type,
+        size: file.size,
+        data
+      });
+    };
+
+    reader.onerror = () => {
+      reject(new Error(`Could not read ${file.name}`));
+    };
+
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * Get a data URL for displaying an attachment
+ */
+export const getAttachmentDataUrl = (attachment: Attachment): string => {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+};
+
+/**
+ * Format a file size in bytes as a short human readable string
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -1,4 +1,4 @@
-import { GeminiModel } from '../../features/gemini/types/gemini.types';
+import { GeminiModel, ModelListing } from '../../features/gemini/types/gemini.types';
 
 // Model capabilities
 const TEXT = "Text generation";
@@ -9,7 +9,8 @@ const REASONING = "Advanced reasoning";
 const THINKING = "Thinking process";
 
 /**
- * Available Gemini models
+ * Gemini models known to the app
+ * Used until the API's model listing has been fetched, and as the fallback when it cannot be
  */
 export const GEMINI_MODELS: GeminiModel[] = [
   {
@@ -20,6 +21,7 @@ export const GEMINI_MODELS: GeminiModel[] = [
     experimental: true,
     capabilities: [TEXT, CODE, MULTIMODAL, THINKING],
     maxInputTokens: 32768,
+    maxOutputTokens: 65536,
     supportsWebSearch: true,
     supportsThinking: true
   },
@@ -30,8 +32,9 @@ export const GEMINI_MODELS: GeminiModel[] = [
     isDefault: false,
     capabilities: [TEXT, CODE, REASONING, LONGCONTEXT],
     maxInputTokens: 32768,
+    maxOutputTokens: 8192,
     supportsWebSearch: true,
-    supportsThinking: true
+    supportsThinking: false
   },
   {
     id: "gemini-2.0-flash-exp",
@@ -40,8 +43,9 @@ export const GEMINI_MODELS: GeminiModel[] = [
     isDefault: true,
     capabilities: [TEXT, CODE, MULTIMODAL],
     maxInputTokens: 32768,
+    maxOutputTokens: 8192,
     supportsWebSearch: true,
-    supportsThinking: true
+    supportsThinking: false
   },
   {
     id: "gemini-1.5-pro",
@@ -49,6 +53,7 @@ export const GEMINI_MODELS: GeminiModel[] = [
     description: "Previous generation pro model",
     capabilities: [TEXT, CODE, REASONING, LONGCONTEXT],
     maxInputTokens: 16384,
+    maxOutputTokens: 8192,
     supportsWebSearch: true,
     supportsThinking: false
   },
@@ -58,6 +63,7 @@ export const GEMINI_MODELS: GeminiModel[] = [
     description: "Previous generation fast model",
     capabilities: [TEXT, CODE],
     maxInputTokens: 16384,
+    maxOutputTokens: 8192,
     supportsWebSearch: true,
     supportsThinking: false
   }
@@ -66,20 +72,115 @@ export const GEMINI_MODELS: GeminiModel[] = [
 // Log models for debugging
 console.log('GEMINI_MODELS loaded:', GEMINI_MODELS);
 
+// Models discovered from the API, or the static list until discovery succeeds
+let availableModels: GeminiModel[] = GEMINI_MODELS;
+
+// Listed models that cannot hold a text conversation
+const NON_CHAT_MODEL_PATTERN = /embedding|tts|image-generation|native-audio|live/;
+
+/**
+ * Get the models that can currently be selected
+ */
+export const getAvailableModels = (): GeminiModel[] => availableModels;
+
+/**
+ * Replace the selectable models, e.g. with the ones discovered from the API
+ * An empty list restores the static models
+ */
+export const setAvailableModels = (models: GeminiModel[]): void => {
+  availableModels = models.length > 0 ? models : GEMINI_MODELS;
+};
+
+/**
+ * Check whether a model can currently be selected
+ */
+export const isModelAvailable = (id: string): boolean => {
+  return availableModels.some(model => model.id === id);
+};
+
+/**
+ * Describe a model from the API's model listing
+ * Capabilities of models the app already knows are kept, with the names and token limits reported by the API
+ * Returns null for models that cannot be used for chat
+ */
+export const createModelFromListing = (listing: ModelListing): GeminiModel | null => {
+  const id = listing.name.replace(/^models\//, '');
+  if (!id.startsWith('gemini-') || NON_CHAT_MODEL_PATTERN.test(id)
+    || !listing.supportedGenerationMethods?.includes('generateContent')) {
+    return null;
+  }
+
+  const known = GEMINI_MODELS.find(model => model.id === id);
+  const supportsThinking = listing.thinking ?? known?.supportsThinking ?? false;
+  const maxInputTokens = listing.inputTokenLimit || known?.maxInputTokens || 32768;
+  const capabilities = known?.capabilities || [
+    TEXT,
+    CODE,
+    MULTIMODAL,
+    ...(maxInputTokens >= 1000000 ? [LONGCONTEXT] : []),
+    ...(supportsThinking ? [THINKING] : [])
+  ];
+
+  return {
+    id,
+    name: listing.displayName || known?.name || id,
+    description: listing.description || known?.description || '',
+    capabilities,
+    maxInputTokens,
+    maxOutputTokens: listing.outputTokenLimit || known?.maxOutputTokens || 8192,
+    experimental: known?.experimental ?? /exp|preview/.test(id),
+    supportsWebSearch: known?.supportsWebSearch ?? true,
+    supportsThinking
+  };
+};
+
+/**
+ * Order discovered models for display, newest first, and mark the default
+ * The static default is kept when the API still offers it, otherwise the newest stable Flash model is used
+ */
+export const prepareDiscoveredModels = (models: GeminiModel[]): GeminiModel[] => {
+  const sorted = [...models].sort((a, b) => b.name.localeCompare(a.name, undefined, { numeric: true }));
+  const staticDefault = GEMINI_MODELS.find(model => model.isDefault);
+  const defaultModel = sorted.find(model => model.id === staticDefault?.id)
+    || sorted.find(model => model.id.includes('flash') && !model.experimental && !model.id.includes('lite'))
+    || sorted[0];
+
+  return sorted.map(model => ({ ...model, isDefault: model === defaultModel }));
+};
+
 /**
  * Get the default model
  */
 export const getDefaultModel = (): GeminiModel => {
-  const defaultModel = GEMINI_MODELS.find(model => model.isDefault) || GEMINI_MODELS[0];
+  const defaultModel = availableModels.find(model => model.isDefault) || availableModels[0];
   console.log('Default model:', defaultModel);
   return defaultModel;
 };
 
+/**
+ * Get the model used for quick background tasks such as naming conversations
+ * Prefers the newest stable Flash-Lite model, then Flash, and falls back to the default model
+ */
+export const getFastModel = (): GeminiModel => {
+  const stable = availableModels.filter(model => !model.experimental);
+  return stable.find(model => model.id.includes('flash-lite'))
+    || stable.find(model => model.id.includes('flash'))
+    || getDefaultModel();
+};
+
 /**
  * Find a model by ID
+ * Models that are no longer available are still found in the static list, so older messages keep their names
  */
 export const findModelById = (id: string): GeminiModel | undefined => {
-  const model = GEMINI_MODELS.find(model => model.id === id);
+  const model = availableModels.find(model => model.id === id) || GEMINI_MODELS.find(model => model.id === id);
   console.log(`Finding model by ID ${id}:`, model);
   return model;
-}; 
\ No newline at end of file
+};
+
+/**
+ * Check whether a model accepts image and file attachments
+ */
+export const supportsAttachments = (id: string): boolean => {
+  return findModelById(id)?.capabilities.includes(MULTIMODAL) ?? false;
+};
@@ -1,11 +1,39 @@
 // Export utilities
 export { 
   GEMINI_MODELS,
+  getAvailableModels,
+  setAvailableModels,
+  isModelAvailable,
+  createModelFromListing,
+  prepareDiscoveredModels,
   getDefaultModel,
-  findModelById
+  getFastModel,
+  findModelById,
+  supportsAttachments
 } from './geminiModels';
 
 export {
   formatTimestamp,
   getRelativeTime
-} from './datetime'; 
\ No newline at end of file
+} from './datetime';
+
+export {
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS,
+  ATTACHMENT_ACCEPT,
+  isSupportedAttachment,
+  readFileAsAttachment,
+  getAttachmentDataUrl,
+  formatFileSize
+} from './attachments';
+
+export {
+  SAFETY_CATEGORIES,
+  SAFETY_THRESHOLDS,
+  DEFAULT_SAFETY_THRESHOLD,
+  formatSafetyLabel
+} from './safety';
+
+export { getServerUrl } from './server';
+
+export { isWebUrl } from './urls';
@@ -0,0 +1,38 @@
+import { HarmBlockThreshold, HarmCategory } from '@google/generative-ai';
+
+/**
+ * Harm categories that can be configured, in display order
+ */
+export const SAFETY_CATEGORIES: Array<{ category: HarmCategory; label: string }> = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, label: 'Harassment' },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, label: 'Hate speech' },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, label: 'Sexually explicit' },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, label: 'Dangerous content' }
+];
+
+/**
+ * Block thresholds, from most to least permissive
+ */
+export const SAFETY_THRESHOLDS: Array<{ threshold: HarmBlockThreshold; label: string }> = [
+  { threshold: HarmBlockThreshold.BLOCK_NONE, label: 'Block none' },
+  { threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH, label: 'Block few' },
+  { threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE, label: 'Block some' },
+  { threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE, label: 'Block most' }
+];
+
+/**
+ * Threshold used for categories that have not been configured
+ */
+export const DEFAULT_SAFETY_THRESHOLD = HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE;
+
+/**
+ * Turn an API enum value such as a harm category, probability or finish reason into readable text
+ * e.g. "HARM_CATEGORY_HATE_SPEECH" becomes "Hate speech"
+ */
+export const formatSafetyLabel = (value: string): string => {
+  const known = SAFETY_CATEGORIES.find(({ category }) => category === value);
+  if (known) return known.label;
+
+  const text = value.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
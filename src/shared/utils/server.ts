@@ -0,0 +1,11 @@
+// Address of the companion server in server/, used for web search and shared links
+const DEFAULT_SERVER_URL = 'http://localhost:3001';
+
+/**
+ * Get the base URL of the companion server, without a trailing slash
+ * Checks Vite env vars first, then runtime env vars (set in window._env_)
+ */
+export const getServerUrl = (): string => {
+  const url = import.meta.env.VITE_SERVER_URL || window._env_?.SERVER_URL || DEFAULT_SERVER_URL;
+  return url.replace(/\/+$/, '');
+};
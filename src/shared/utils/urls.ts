@@ -0,0 +1,14 @@
+/**
+ * Whether a URL is a web address that is safe to link to
+ * Rejects javascript: and data: URLs, which would run on the app's origin when opened
+ */
+export const isWebUrl = (url: unknown): url is string => {
+  if (typeof url !== 'string') return false;
+
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
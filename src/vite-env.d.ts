@@ -1,8 +1,10 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_GEMINI_API_KEY: string;
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_GEMINI_TRANSPORT?: 'direct' | 'proxy';
   readonly VITE_MAX_SEARCH_ROUNDS?: string;
+  readonly VITE_SERVER_URL?: string;
   // more env variables...
 }
 
@@ -14,7 +16,9 @@ interface ImportMeta {
 interface Window {
   _env_?: {
     GEMINI_API_KEY?: string;
+    GEMINI_TRANSPORT?: string;
     MAX_SEARCH_ROUNDS?: string;
+    SERVER_URL?: string;
     [key: string]: any;
   };
 } 
\ No newline at end of file
@@ -1,7 +1,15 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.')
+
+  return {
+    plugins: [react()],
+    // Unless direct API access is chosen, a VITE_GEMINI_API_KEY left in the environment is not bundled
+    define: env.VITE_GEMINI_TRANSPORT === 'direct'
+      ? {}
+      : { 'import.meta.env.VITE_GEMINI_API_KEY': '""' },
+  }
 })
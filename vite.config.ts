@@ -1,11 +1,19 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    open: true, // automatically open the browser
-    port: 5173, // specify port
-  },
-}) 
\ No newline at end of file
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.')
+
+  return {
+    plugins: [react()],
+    // Unless direct API access is chosen, a VITE_GEMINI_API_KEY left in the environment is not bundled
+    define: env.VITE_GEMINI_TRANSPORT === 'direct'
+      ? {}
+      : { 'import.meta.env.VITE_GEMINI_API_KEY': '""' },
+    server: {
+      open: true, // automatically open the browser
+      port: 5173, // specify port
+    },
+  }
+})